@@ -0,0 +1,5 @@
+// Runtime configuration, loaded before the app bundle.
+// Deployments overwrite this file so the same build can target staging or production, e.g.
+//   window.__APP_CONFIG__ = { graphqlEndpoint: 'https://api.example.com/graphql' };
+// Unset values fall back to the VITE_* build-time variables.
+window.__APP_CONFIG__ = {};
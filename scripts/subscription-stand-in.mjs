@@ -0,0 +1,95 @@
+// Local stand-in for the API's subscription endpoint, for developing live order updates
+// without the real backend. It speaks graphql-ws, requires a bearer token in connection_init
+// like the API does, and walks one order through its fulfilment statuses.
+//
+//   npm run stand-in:subscriptions
+//   VITE_SUBSCRIPTION_URL=ws://localhost:4001/graphql npm run dev
+//
+// STAND_IN_PORT, STAND_IN_ORDER_ID, STAND_IN_ORDER_NUMBER and STAND_IN_INTERVAL_MS override
+// the defaults below.
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/use/ws';
+import { buildSchema } from 'graphql';
+
+const PORT = Number(process.env.STAND_IN_PORT) || 4001;
+const ORDER_ID = process.env.STAND_IN_ORDER_ID || '1';
+const ORDER_NUMBER = process.env.STAND_IN_ORDER_NUMBER || '1001';
+const INTERVAL_MS = Number(process.env.STAND_IN_INTERVAL_MS) || 5000;
+const STATUSES = ['PENDING', 'PAID', 'PROCESSING', 'SHIPPED', 'DELIVERED'];
+
+const schema = buildSchema(`
+  enum OrderStatus { PENDING PAID PROCESSING SHIPPED DELIVERED CANCELLED REFUNDED }
+
+  type OrderStatusEvent {
+    status: OrderStatus!
+    occurredAt: String!
+    note: String
+  }
+
+  type Order {
+    id: ID!
+    number: String!
+    status: OrderStatus!
+    statusHistory: [OrderStatusEvent!]!
+    trackingUrl: String
+  }
+
+  type Query {
+    health: String!
+  }
+
+  type Subscription {
+    orderStatusChanged: Order!
+  }
+`);
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// One pass through the statuses per subscriber, then it starts over
+async function* orderStatusChanged() {
+  for (;;) {
+    const statusHistory = [];
+    for (const status of STATUSES) {
+      await sleep(INTERVAL_MS);
+      statusHistory.push({ status, occurredAt: new Date().toISOString(), note: null });
+      yield {
+        orderStatusChanged: {
+          id: ORDER_ID,
+          number: ORDER_NUMBER,
+          status,
+          statusHistory: [...statusHistory],
+          trackingUrl:
+            status === 'SHIPPED' || status === 'DELIVERED' ? 'https://example.com/track' : null,
+        },
+      };
+    }
+  }
+}
+
+const server = new WebSocketServer({ port: PORT, path: '/graphql' });
+
+useServer(
+  {
+    schema,
+    roots: {
+      query: { health: () => 'ok' },
+      subscription: { orderStatusChanged },
+    },
+    // Same rule as the API: no token, no socket (closes with 4403 Forbidden)
+    onConnect: ({ connectionParams }) => {
+      const authorization = connectionParams?.authorization;
+      if (typeof authorization !== 'string' || !authorization.startsWith('Bearer ')) {
+        console.log('Rejected connection without a bearer token');
+        return false;
+      }
+      console.log(`Connected with token …${authorization.slice(-8)}`);
+      return true;
+    },
+    onDisconnect: (_ctx, code, reason) => {
+      console.log(`Disconnected (${code}${reason ? ` ${reason}` : ''})`);
+    },
+  },
+  server
+);
+
+console.log(`Subscription stand-in listening on ws://localhost:${PORT}/graphql`);
@@ -0,0 +1,41 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Interfaces
+export interface ServerConfig {
+  port: number;
+  isProduction: boolean;
+  // Directory containing the Vite build (index.html and assets/)
+  staticDir: string;
+  upstreamGraphqlUrl: string;
+  // Cookie the upstream API uses for the refresh token
+  upstreamRefreshCookieName: string;
+  // Cookie the BFF issues to the browser in its place
+  refreshCookieName: string;
+  // Extra origins allowed to call /graphql with credentials; same-origin needs none
+  allowedOrigins: ReadonlyArray<string>;
+}
+
+// Constants
+const DEFAULT_PORT = 8080 as const;
+const DEFAULT_UPSTREAM_GRAPHQL_URL = 'http://localhost:4000/graphql' as const;
+const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+function parseList(value: string | undefined): ReadonlyArray<string> {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    port: Number(env.PORT) || DEFAULT_PORT,
+    isProduction: env.NODE_ENV === 'production',
+    staticDir: path.resolve(PROJECT_ROOT, env.STATIC_DIR || 'dist'),
+    upstreamGraphqlUrl: env.UPSTREAM_GRAPHQL_URL || DEFAULT_UPSTREAM_GRAPHQL_URL,
+    upstreamRefreshCookieName: env.UPSTREAM_REFRESH_COOKIE_NAME || 'refreshToken',
+    refreshCookieName: env.REFRESH_COOKIE_NAME || '__Host-refresh_token',
+    allowedOrigins: parseList(env.ALLOWED_ORIGINS),
+  };
+}
@@ -0,0 +1,62 @@
+import path from 'node:path';
+import express from 'express';
+import type { Express } from 'express';
+import cookieParser from 'cookie-parser';
+import { loadServerConfig } from './config.js';
+import type { ServerConfig } from './config.js';
+import { securityHeaders } from './middleware/securityHeaders.js';
+import { ensureCsrfCookie } from './middleware/csrfProtection.js';
+import { csrfRouter } from './routes/csrf.js';
+import { healthRouter } from './routes/health.js';
+import { createGraphqlProxy } from './routes/graphqlProxy.js';
+import { attachSubscriptionProxy } from './routes/subscriptionProxy.js';
+
+// Constants
+const ASSET_MAX_AGE = '1y' as const;
+
+// Backend-for-frontend: serves the SPA and proxies /graphql so the app stays same-origin
+export function createApp(config: ServerConfig): Express {
+  const app = express();
+
+  app.disable('x-powered-by');
+  // Behind a TLS-terminating load balancer req.protocol and req.ip come from X-Forwarded-*
+  app.set('trust proxy', config.isProduction ? 1 : false);
+
+  app.use(securityHeaders({ enableHsts: config.isProduction }));
+  app.use(cookieParser());
+  app.use(ensureCsrfCookie());
+  app.use(healthRouter);
+  app.use(csrfRouter);
+  app.use(createGraphqlProxy(config));
+
+  // Hashed build assets never change; everything else must be revalidated
+  app.use(
+    '/assets',
+    express.static(path.join(config.staticDir, 'assets'), {
+      immutable: true,
+      maxAge: ASSET_MAX_AGE,
+      fallthrough: false,
+    })
+  );
+  app.use(express.static(config.staticDir, { index: false }));
+
+  // History API fallback: client-side routes all render index.html
+  app.get('/{*path}', (req, res, next): void => {
+    if (path.extname(req.path) || !req.accepts('html')) {
+      next();
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-cache');
+    res.sendFile(path.join(config.staticDir, 'index.html'));
+  });
+
+  return app;
+}
+
+const config = loadServerConfig();
+
+const server = createApp(config).listen(config.port, () => {
+  console.log(`BFF listening on port ${config.port}, proxying to ${config.upstreamGraphqlUrl}`);
+});
+attachSubscriptionProxy(server, config);
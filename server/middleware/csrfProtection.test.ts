@@ -0,0 +1,142 @@
+import express from 'express';
+import type { Express } from 'express';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import type { ServerConfig } from '../config.js';
+import { csrfRouter } from '../routes/csrf.js';
+import {
+  CSRF_COOKIE_NAME,
+  CSRF_ERROR_CODE,
+  CSRF_HEADER_NAME,
+  ensureCsrfCookie,
+  verifyCsrfToken,
+} from './csrfProtection.js';
+
+const config: ServerConfig = {
+  port: 0,
+  isProduction: false,
+  staticDir: '',
+  upstreamGraphqlUrl: 'http://upstream.test/graphql',
+  upstreamRefreshCookieName: 'refreshToken',
+  refreshCookieName: '__Host-refresh_token',
+  allowedOrigins: [],
+};
+
+const CSRF_TOKEN = 'csrf-token-value';
+const SESSION_COOKIE = `${config.refreshCookieName}=refresh-token-value`;
+const CSRF_COOKIE = `${CSRF_COOKIE_NAME}=${CSRF_TOKEN}`;
+
+const MUTATION = JSON.stringify({ query: 'mutation Logout { logout }' });
+const QUERY = JSON.stringify({ query: 'query Me { me { id } }' });
+
+// The middleware in front of a stand-in for the proxied API
+function createApp(): Express {
+  const app = express();
+  app.use(cookieParser());
+  app.use(ensureCsrfCookie());
+  app.use(csrfRouter);
+  app.use('/graphql', express.raw({ type: '*/*' }), verifyCsrfToken(config));
+  app.all('/graphql', (_req, res): void => {
+    res.json({ data: { ok: true } });
+  });
+  return app;
+}
+
+function getSetCookies(response: request.Response): string[] {
+  const header = response.headers['set-cookie'] as string | string[] | undefined;
+  return Array.isArray(header) ? header : header ? [header] : [];
+}
+
+describe('ensureCsrfCookie', () => {
+  it('issues a CSRF cookie the app can read', async () => {
+    const response = await request(createApp()).get('/csrf-token');
+
+    const [cookie] = getSetCookies(response);
+    expect(cookie).toMatch(new RegExp(`^${CSRF_COOKIE_NAME}=[\\w-]{43};`));
+    expect(cookie).toContain('Secure');
+    expect(cookie).toContain('SameSite=Strict');
+    expect(cookie).not.toContain('HttpOnly');
+    expect(cookie).toContain(`=${response.body.csrfToken};`);
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+
+  it('keeps an existing CSRF cookie', async () => {
+    const response = await request(createApp()).get('/csrf-token').set('Cookie', CSRF_COOKIE);
+
+    expect(getSetCookies(response)).toEqual([]);
+    expect(response.body).toEqual({ csrfToken: CSRF_TOKEN });
+  });
+});
+
+describe('verifyCsrfToken', () => {
+  it('accepts a cookie-authenticated mutation that echoes the CSRF token', async () => {
+    await request(createApp())
+      .post('/graphql')
+      .set('Cookie', [SESSION_COOKIE, CSRF_COOKIE])
+      .set(CSRF_HEADER_NAME, CSRF_TOKEN)
+      .set('Content-Type', 'application/json')
+      .send(MUTATION)
+      .expect(200, { data: { ok: true } });
+  });
+
+  it.each([
+    ['a missing', undefined],
+    ['a different', 'other-token'],
+    ['a truncated', CSRF_TOKEN.slice(1)],
+  ])('rejects a cookie-authenticated mutation with %s CSRF header', async (_case, header) => {
+    const pending = request(createApp())
+      .post('/graphql')
+      .set('Cookie', [SESSION_COOKIE, CSRF_COOKIE])
+      .set('Content-Type', 'application/json');
+    if (header) {
+      pending.set(CSRF_HEADER_NAME, header);
+    }
+
+    const response = await pending.send(MUTATION).expect(403);
+
+    expect(response.body.errors[0].extensions).toEqual({ code: CSRF_ERROR_CODE });
+  });
+
+  it('rejects a batch that contains a mutation', async () => {
+    await request(createApp())
+      .post('/graphql')
+      .set('Cookie', [SESSION_COOKIE, CSRF_COOKIE])
+      .set('Content-Type', 'application/json')
+      .send(`[${QUERY},${MUTATION}]`)
+      .expect(403);
+  });
+
+  it('rejects a mutation sent as a GET request', async () => {
+    await request(createApp())
+      .get('/graphql')
+      .query({ query: 'mutation Logout { logout }' })
+      .set('Cookie', [SESSION_COOKIE, CSRF_COOKIE])
+      .expect(403);
+  });
+
+  it('lets queries through without the header', async () => {
+    await request(createApp())
+      .post('/graphql')
+      .set('Cookie', [SESSION_COOKIE, CSRF_COOKIE])
+      .set('Content-Type', 'application/json')
+      .send(QUERY)
+      .expect(200);
+  });
+
+  it('lets mutations through when no refresh cookie is sent', async () => {
+    await request(createApp())
+      .post('/graphql')
+      .set('Content-Type', 'application/json')
+      .send(MUTATION)
+      .expect(200);
+  });
+
+  it('leaves documents that do not parse to the upstream', async () => {
+    await request(createApp())
+      .post('/graphql')
+      .set('Cookie', [SESSION_COOKIE, CSRF_COOKIE])
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify({ query: 'mutation {' }))
+      .expect(200);
+  });
+});
@@ -0,0 +1,113 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import type { Request, RequestHandler, Response } from 'express';
+import { parse } from 'graphql';
+import type { ServerConfig } from '../config.js';
+
+// Constants
+// Readable by the app (not HttpOnly) so it can echo the value back in CSRF_HEADER_NAME
+export const CSRF_COOKIE_NAME = '__Host-csrf_token' as const;
+export const CSRF_HEADER_NAME = 'x-csrf-token' as const;
+export const CSRF_ERROR_CODE = 'CSRF_TOKEN_INVALID' as const;
+const CSRF_TOKEN_BYTES = 32 as const;
+
+interface GraphQLRequestBody {
+  query?: unknown;
+}
+
+function setCsrfCookie(res: Response, token: string): void {
+  res.cookie(CSRF_COOKIE_NAME, token, {
+    httpOnly: false,
+    secure: true,
+    sameSite: 'strict',
+    path: '/',
+  });
+}
+
+// Issue a CSRF token cookie to any client that does not have one yet
+export function ensureCsrfCookie(): RequestHandler {
+  return (req, res, next): void => {
+    const token: unknown = req.cookies?.[CSRF_COOKIE_NAME];
+
+    if (typeof token !== 'string' || !token) {
+      const newToken = randomBytes(CSRF_TOKEN_BYTES).toString('base64url');
+      // Later handlers in this request (GET /csrf-token) read it from req.cookies
+      req.cookies = { ...req.cookies, [CSRF_COOKIE_NAME]: newToken };
+      setCsrfCookie(res, newToken);
+    }
+
+    next();
+  };
+}
+
+function getRequestedDocuments(req: Request): ReadonlyArray<unknown> {
+  if (req.method === 'GET') {
+    return [req.query.query];
+  }
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return [];
+  }
+
+  try {
+    const body: unknown = JSON.parse(req.body.toString('utf8'));
+    // Batched requests send an array of operations
+    const operations = Array.isArray(body) ? body : [body];
+    return operations.map((operation: GraphQLRequestBody | null) => operation?.query);
+  } catch {
+    return [];
+  }
+}
+
+// A document that fails to parse is left for the upstream to reject
+function containsMutation(document: unknown): boolean {
+  if (typeof document !== 'string') {
+    return false;
+  }
+
+  try {
+    return parse(document).definitions.some(
+      (definition) =>
+        definition.kind === 'OperationDefinition' && definition.operation === 'mutation'
+    );
+  } catch {
+    return false;
+  }
+}
+
+function tokensMatch(cookieToken: unknown, headerToken: unknown): boolean {
+  if (typeof cookieToken !== 'string' || typeof headerToken !== 'string' || !cookieToken) {
+    return false;
+  }
+
+  const expected = Buffer.from(cookieToken);
+  const actual = Buffer.from(headerToken);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Double-submit check: a cross-site page can make the browser send our cookies but cannot
+// read the CSRF cookie to copy it into the header. Only mutations that ride on the refresh
+// cookie need it; bearer-token requests are not sent automatically by the browser.
+export function verifyCsrfToken(config: ServerConfig): RequestHandler {
+  return (req, res, next): void => {
+    const hasSessionCookie = Boolean(req.cookies?.[config.refreshCookieName]);
+
+    if (!hasSessionCookie || !getRequestedDocuments(req).some(containsMutation)) {
+      next();
+      return;
+    }
+
+    if (tokensMatch(req.cookies?.[CSRF_COOKIE_NAME], req.get(CSRF_HEADER_NAME))) {
+      next();
+      return;
+    }
+
+    res.status(403).json({
+      errors: [
+        {
+          message: 'Your security token is missing or has expired. Please reload the page.',
+          extensions: { code: CSRF_ERROR_CODE },
+        },
+      ],
+    });
+  };
+}
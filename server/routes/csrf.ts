@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { CSRF_COOKIE_NAME } from '../middleware/csrfProtection.js';
+
+// Lets the app obtain a CSRF token when the page was not served by the BFF (Vite dev server)
+export const csrfRouter = Router();
+
+csrfRouter.get('/csrf-token', (req, res): void => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ csrfToken: req.cookies[CSRF_COOKIE_NAME] });
+});
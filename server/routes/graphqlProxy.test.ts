@@ -0,0 +1,133 @@
+import express from 'express';
+import type { Express } from 'express';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import type { ServerConfig } from '../config.js';
+import { createGraphqlProxy } from './graphqlProxy.js';
+
+const config: ServerConfig = {
+  port: 0,
+  isProduction: false,
+  staticDir: '',
+  upstreamGraphqlUrl: 'http://upstream.test/graphql',
+  upstreamRefreshCookieName: 'refreshToken',
+  refreshCookieName: '__Host-refresh_token',
+  allowedOrigins: [],
+};
+
+const QUERY = JSON.stringify({ query: 'query Me { me { id } }' });
+
+function createApp(): Express {
+  const app = express();
+  app.use(cookieParser());
+  app.use(createGraphqlProxy(config));
+  return app;
+}
+
+function mockUpstream(setCookies: string[] = []): jest.SpyInstance {
+  return jest.spyOn(globalThis, 'fetch').mockResolvedValue(
+    new Response(JSON.stringify({ data: { me: null } }), {
+      status: 200,
+      headers: [
+        ['content-type', 'application/json'],
+        ...setCookies.map((cookie): [string, string] => ['set-cookie', cookie]),
+      ],
+    })
+  );
+}
+
+function getSetCookies(response: request.Response): string[] {
+  const header = response.headers['set-cookie'] as string | string[] | undefined;
+  return Array.isArray(header) ? header : header ? [header] : [];
+}
+
+describe('createGraphqlProxy', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('forwards the request and relays the upstream response', async () => {
+    const fetchMock = mockUpstream();
+
+    await request(createApp())
+      .post('/graphql')
+      .set('Content-Type', 'application/json')
+      .set('Authorization', 'Bearer access-token')
+      .send(QUERY)
+      .expect('Content-Type', /application\/json/)
+      .expect(200, { data: { me: null } });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Headers;
+    expect(url).toBe(config.upstreamGraphqlUrl);
+    expect(init.method).toBe('POST');
+    expect(Buffer.from(init.body as Buffer).toString()).toBe(QUERY);
+    expect(headers.get('authorization')).toBe('Bearer access-token');
+    expect(headers.has('cookie')).toBe(false);
+  });
+
+  it('sends the refresh cookie upstream under its upstream name only', async () => {
+    const fetchMock = mockUpstream();
+
+    await request(createApp())
+      .post('/graphql')
+      .set('Cookie', [`${config.refreshCookieName}=a+b`, 'analytics=1'])
+      .set('Content-Type', 'application/json')
+      .send(QUERY)
+      .expect(200);
+
+    const headers = (fetchMock.mock.calls[0] as [string, RequestInit])[1].headers as Headers;
+    expect(headers.get('cookie')).toBe('refreshToken=a%2Bb');
+  });
+
+  it('re-issues the upstream refresh cookie as a first-party __Host- cookie', async () => {
+    mockUpstream([
+      'refreshToken=new-refresh-token; Max-Age=3600; Domain=api.example.com; Path=/api; SameSite=None',
+      'upstream_session=xyz; Path=/',
+    ]);
+
+    const response = await request(createApp())
+      .post('/graphql')
+      .set('Content-Type', 'application/json')
+      .send(QUERY)
+      .expect(200);
+
+    const cookies = getSetCookies(response);
+    expect(cookies).toHaveLength(1);
+    expect(cookies[0]).toMatch(/^__Host-refresh_token=new-refresh-token; Max-Age=3600; Path=\/;/);
+    expect(cookies[0]).toContain('HttpOnly');
+    expect(cookies[0]).toContain('Secure');
+    expect(cookies[0]).toContain('SameSite=Strict');
+    expect(cookies[0]).not.toContain('Domain');
+  });
+
+  it.each([
+    ['an empty', 'refreshToken=; Path=/'],
+    ['an expired', 'refreshToken=old; Max-Age=0'],
+  ])('clears the refresh cookie when the upstream sends %s one', async (_case, setCookie) => {
+    mockUpstream([setCookie]);
+
+    const response = await request(createApp())
+      .post('/graphql')
+      .set('Cookie', `${config.refreshCookieName}=old`)
+      .set('Content-Type', 'application/json')
+      .send(QUERY)
+      .expect(200);
+
+    const [cookie] = getSetCookies(response);
+    expect(cookie).toMatch(/^__Host-refresh_token=; Path=\/; Expires=Thu, 01 Jan 1970/);
+  });
+
+  it('answers 502 when the upstream cannot be reached', async () => {
+    jest.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await request(createApp())
+      .post('/graphql')
+      .set('Content-Type', 'application/json')
+      .send(QUERY)
+      .expect(502);
+
+    expect(response.body.errors[0].extensions).toEqual({ code: 'BAD_GATEWAY' });
+  });
+});
@@ -0,0 +1,121 @@
+import express, { Router } from 'express';
+import type { Request, Response } from 'express';
+import cors from 'cors';
+import type { ServerConfig } from '../config.js';
+import { verifyCsrfToken } from '../middleware/csrfProtection.js';
+import { parseSetCookie, setRefreshCookie } from '../utilities/refreshCookie.js';
+
+// Constants
+const MAX_BODY_SIZE = '1mb' as const;
+const UPSTREAM_TIMEOUT_MS = 30_000 as const;
+
+// Request headers passed through to the upstream API; cookies are rebuilt, never copied
+const FORWARDED_REQUEST_HEADERS: ReadonlyArray<string> = [
+  'accept',
+  'authorization',
+  'content-type',
+  'user-agent',
+  'apollo-require-preflight',
+  'x-apollo-operation-name',
+];
+
+const FORWARDED_RESPONSE_HEADERS: ReadonlyArray<string> = ['content-type', 'cache-control'];
+
+function buildUpstreamHeaders(req: Request, config: ServerConfig): Headers {
+  const headers = new Headers();
+
+  FORWARDED_REQUEST_HEADERS.forEach((name) => {
+    const value = req.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  });
+
+  // The browser only holds the BFF's cookie; the upstream expects its own name
+  const refreshToken: unknown = req.cookies?.[config.refreshCookieName];
+  if (typeof refreshToken === 'string' && refreshToken) {
+    headers.set(
+      'cookie',
+      `${config.upstreamRefreshCookieName}=${encodeURIComponent(refreshToken)}`
+    );
+  }
+
+  if (req.ip) {
+    headers.set('x-forwarded-for', req.ip);
+  }
+  headers.set('x-forwarded-proto', req.protocol);
+
+  return headers;
+}
+
+// Upstream cookies are scoped to the API host; only the refresh token is carried over
+function relayRefreshCookie(
+  upstream: globalThis.Response,
+  res: Response,
+  config: ServerConfig
+): void {
+  upstream.headers.getSetCookie().forEach((header) => {
+    const cookie = parseSetCookie(header);
+    if (cookie?.name === config.upstreamRefreshCookieName) {
+      setRefreshCookie(res, config.refreshCookieName, cookie);
+    }
+  });
+}
+
+function sendBadGateway(res: Response): void {
+  res.status(502).json({
+    errors: [
+      {
+        message: 'The API is currently unavailable. Please try again shortly.',
+        extensions: { code: 'BAD_GATEWAY' },
+      },
+    ],
+  });
+}
+
+// Proxies /graphql to the upstream API and keeps the refresh token in a first-party cookie
+export function createGraphqlProxy(config: ServerConfig): Router {
+  const router = Router();
+
+  router.use(
+    '/graphql',
+    cors({ origin: [...config.allowedOrigins], credentials: true }),
+    express.raw({ type: '*/*', limit: MAX_BODY_SIZE }),
+    verifyCsrfToken(config)
+  );
+
+  router.all('/graphql', async (req: Request, res: Response): Promise<void> => {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      res.status(405).set('Allow', 'GET, POST').end();
+      return;
+    }
+
+    const query = req.originalUrl.indexOf('?');
+    const upstreamUrl =
+      config.upstreamGraphqlUrl + (query >= 0 ? req.originalUrl.slice(query) : '');
+
+    try {
+      const upstream = await fetch(upstreamUrl, {
+        method: req.method,
+        headers: buildUpstreamHeaders(req, config),
+        body: req.method === 'POST' && Buffer.isBuffer(req.body) ? req.body : undefined,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      });
+
+      relayRefreshCookie(upstream, res, config);
+      FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+        const value = upstream.headers.get(name);
+        if (value) {
+          res.setHeader(name, value);
+        }
+      });
+
+      res.status(upstream.status).send(Buffer.from(await upstream.arrayBuffer()));
+    } catch (error) {
+      console.error('GraphQL proxy request failed:', error);
+      sendBadGateway(res);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+
+// Liveness probe for load balancers and the client's connectivity monitor
+export const healthRouter = Router();
+
+healthRouter.get('/healthz', (_req, res): void => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+});
@@ -0,0 +1,116 @@
+import http from 'node:http';
+import https from 'node:https';
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { ServerConfig } from '../config.js';
+
+// Constants
+const SUBSCRIPTION_PATH = '/graphql' as const;
+const UPSTREAM_CONNECT_TIMEOUT_MS = 10_000 as const;
+
+// Handshake headers passed through to the upstream. Cookies are never sent: the socket
+// authenticates with the access token in the graphql-ws connection_init message.
+const FORWARDED_UPGRADE_HEADERS: ReadonlyArray<string> = [
+  'upgrade',
+  'connection',
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-protocol',
+  'sec-websocket-extensions',
+  'user-agent',
+];
+
+function buildUpstreamHeaders(req: IncomingMessage): http.OutgoingHttpHeaders {
+  const headers: http.OutgoingHttpHeaders = {};
+
+  FORWARDED_UPGRADE_HEADERS.forEach((name) => {
+    const value = req.headers[name];
+    if (value) {
+      headers[name] = value;
+    }
+  });
+
+  if (req.socket.remoteAddress) {
+    headers['x-forwarded-for'] = req.socket.remoteAddress;
+  }
+
+  return headers;
+}
+
+// Browsers send Origin on every WebSocket handshake; only the app itself may open a socket
+function isAllowedOrigin(req: IncomingMessage, config: ServerConfig): boolean {
+  const { origin, host } = req.headers;
+  if (!origin) {
+    return false;
+  }
+
+  try {
+    return new URL(origin).host === host || config.allowedOrigins.includes(origin);
+  } catch {
+    return false;
+  }
+}
+
+function rejectUpgrade(socket: Duplex, statusCode: number): void {
+  socket.end(`HTTP/1.1 ${statusCode} ${http.STATUS_CODES[statusCode] ?? ''}\r\n\r\n`);
+}
+
+// Express only sees HTTP requests, so WebSocket upgrades on /graphql are tunnelled to the
+// upstream API here, byte for byte, once it accepts the handshake
+export function attachSubscriptionProxy(server: Server, config: ServerConfig): void {
+  const upstreamUrl = new URL(config.upstreamGraphqlUrl);
+  const transport = upstreamUrl.protocol === 'https:' ? https : http;
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname !== SUBSCRIPTION_PATH) {
+      rejectUpgrade(socket, 404);
+      return;
+    }
+    if (!isAllowedOrigin(req, config)) {
+      rejectUpgrade(socket, 403);
+      return;
+    }
+
+    const upstreamRequest = transport.request(upstreamUrl, {
+      headers: buildUpstreamHeaders(req),
+      timeout: UPSTREAM_CONNECT_TIMEOUT_MS,
+    });
+
+    upstreamRequest.on('upgrade', (upstreamRes, upstreamSocket, upstreamHead): void => {
+      // The connect timeout must not close an idle subscription
+      upstreamSocket.setTimeout(0);
+      const responseHead = [`HTTP/1.1 101 ${upstreamRes.statusMessage ?? 'Switching Protocols'}`];
+      for (let i = 0; i < upstreamRes.rawHeaders.length; i += 2) {
+        responseHead.push(`${upstreamRes.rawHeaders[i]}: ${upstreamRes.rawHeaders[i + 1]}`);
+      }
+      socket.write(`${responseHead.join('\r\n')}\r\n\r\n`);
+
+      if (upstreamHead.length > 0) {
+        socket.write(upstreamHead);
+      }
+      if (head.length > 0) {
+        upstreamSocket.write(head);
+      }
+
+      upstreamSocket.on('error', () => socket.destroy());
+      socket.on('error', () => upstreamSocket.destroy());
+      upstreamSocket.pipe(socket).pipe(upstreamSocket);
+    });
+
+    // The upstream answered without upgrading (e.g. rejected the handshake)
+    upstreamRequest.on('response', (upstreamRes): void => {
+      upstreamRes.resume();
+      rejectUpgrade(socket, upstreamRes.statusCode ?? 502);
+    });
+
+    upstreamRequest.on('timeout', () => upstreamRequest.destroy());
+    upstreamRequest.on('error', (error): void => {
+      console.error('Subscription proxy handshake failed:', error);
+      rejectUpgrade(socket, 502);
+    });
+
+    upstreamRequest.end();
+  });
+}
@@ -0,0 +1,34 @@
+import { parseSetCookie } from './refreshCookie.js';
+
+describe('parseSetCookie', () => {
+  it('reads the name, decoded value and Max-Age', () => {
+    expect(
+      parseSetCookie('refreshToken=a%2Bb%3D; Max-Age=3600; Domain=api.example.com; HttpOnly')
+    ).toEqual({ name: 'refreshToken', value: 'a+b=', maxAgeMs: 3_600_000 });
+  });
+
+  it('falls back to Expires when there is no Max-Age', () => {
+    jest.useFakeTimers({ now: new Date('2030-01-01T00:00:00Z') });
+
+    expect(
+      parseSetCookie('refreshToken=abc; Expires=Wed, 01 Jan 2030 01:00:00 GMT; Path=/')
+    ).toEqual({ name: 'refreshToken', value: 'abc', maxAgeMs: 3_600_000 });
+
+    jest.useRealTimers();
+  });
+
+  it('prefers Max-Age over Expires', () => {
+    expect(
+      parseSetCookie('refreshToken=abc; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=60')
+    ).toMatchObject({ maxAgeMs: 60_000 });
+  });
+
+  it('leaves the lifetime open for session cookies', () => {
+    expect(parseSetCookie('refreshToken=abc; Path=/')).toMatchObject({ maxAgeMs: null });
+  });
+
+  it('rejects headers without a cookie name', () => {
+    expect(parseSetCookie('=abc; Path=/')).toBeNull();
+    expect(parseSetCookie('garbage')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import type { CookieOptions, Response } from 'express';
+
+// Interfaces
+export interface ParsedSetCookie {
+  name: string;
+  value: string;
+  maxAgeMs: number | null;
+}
+
+// Reads the name, value and lifetime from a Set-Cookie header; other attributes are ignored
+// because the BFF applies its own
+export function parseSetCookie(header: string): ParsedSetCookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+
+  if (separator <= 0) {
+    return null;
+  }
+
+  let maxAgeMs: number | null = null;
+  attributes.forEach((attribute) => {
+    const [key, ...rest] = attribute.trim().split('=');
+    const value = rest.join('=');
+
+    if (key.toLowerCase() === 'max-age' && Number.isFinite(Number(value))) {
+      maxAgeMs = Number(value) * 1_000;
+    } else if (key.toLowerCase() === 'expires' && maxAgeMs === null) {
+      const expiresAt = Date.parse(value);
+      if (!Number.isNaN(expiresAt)) {
+        maxAgeMs = expiresAt - Date.now();
+      }
+    }
+  });
+
+  return {
+    name: pair.slice(0, separator).trim(),
+    value: decodeURIComponent(pair.slice(separator + 1).trim()),
+    maxAgeMs,
+  };
+}
+
+// __Host- cookies must be Secure, on path "/" and without a Domain. Browsers treat
+// http://localhost as secure, so the same attributes work in development.
+function getRefreshCookieOptions(maxAgeMs: number | null): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'strict',
+    path: '/',
+    ...(maxAgeMs !== null ? { maxAge: maxAgeMs } : {}),
+  };
+}
+
+// Re-issue the upstream refresh cookie as a first-party cookie; an empty or expired
+// upstream cookie clears ours
+export function setRefreshCookie(res: Response, name: string, cookie: ParsedSetCookie): void {
+  if (!cookie.value || (cookie.maxAgeMs !== null && cookie.maxAgeMs <= 0)) {
+    res.clearCookie(name, getRefreshCookieOptions(null));
+    return;
+  }
+
+  res.cookie(name, cookie.value, getRefreshCookieOptions(cookie.maxAgeMs));
+}
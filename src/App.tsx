@@ -9,8 +9,30 @@ import { ForgotPassword } from './components/auth/ForgotPassword';
 import { ResetPassword } from './components/auth/ResetPassword';
 import VerifyEmail from './components/auth/VerifyEmail';
 import { ProtectedRoute } from './components/auth/ProtectedRoute';
+import { TwoFactorChallenge } from './components/auth/TwoFactorChallenge';
+import { OAuthCallback } from './components/auth/OAuthCallback';
+import { TwoFactorSettings } from './components/account/TwoFactorSettings';
+import { ActiveSessions } from './components/account/ActiveSessions';
+import { ProfileSettings } from './components/account/ProfileSettings';
+import { ChangePassword } from './components/account/ChangePassword';
+import { ChangeEmail } from './components/account/ChangeEmail';
+import { DeleteAccount } from './components/account/DeleteAccount';
+import { OrderHistory } from './components/account/OrderHistory';
+import { OrderDetail } from './components/account/OrderDetail';
+import { AddressBook } from './components/account/AddressBook';
 import { Home } from './pages/Home';
-import { initializeAuth } from './redux/thunks/authThunks';
+import { AdminDashboard, ADMIN_ACCESS, ADMIN_PATH } from './pages/AdminDashboard';
+import { Account } from './pages/Account';
+import { Products } from './pages/Products';
+import { ProductDetail } from './pages/ProductDetail';
+import { Search } from './pages/Search';
+import { Checkout } from './pages/Checkout';
+import { Wishlist } from './pages/Wishlist';
+import { initializeAuth, syncSession } from './redux/thunks/authThunks';
+import { subscribeToSessionEvents } from './utilities/sessionSync';
+import { startConnectivityMonitor, stopConnectivityMonitor } from './utilities/connectivityMonitor';
+import { OAUTH_CALLBACK_PATH } from './utilities/oauth';
+import { SEARCH_PATH } from './utilities/search';
 import type { AppDispatch } from './redux/store';
 
 const App: React.FC = () => {
@@ -20,16 +42,38 @@ const App: React.FC = () => {
     dispatch(initializeAuth());
   }, [dispatch]);
 
+  useEffect(() => {
+    return subscribeToSessionEvents((event) => {
+      dispatch(syncSession(event));
+    });
+  }, [dispatch]);
+
+  useEffect(() => {
+    startConnectivityMonitor();
+    return stopConnectivityMonitor;
+  }, []);
+
   return (
     <BrowserRouter>
       <Navbar />
       <Container>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/login/2fa" element={<TwoFactorChallenge />} />
           <Route path="/register" element={<Register />} />
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
           <Route path="/verify-email" element={<VerifyEmail />} />
+          <Route path={OAUTH_CALLBACK_PATH} element={<OAuthCallback />} />
+
+          {/* Public shop pages: open to anonymous visitors, no idle timeout */}
+          <Route path="/products" element={<Products />} />
+          <Route path="/products/:slug" element={<ProductDetail />} />
+          <Route path={SEARCH_PATH} element={<Search />} />
+          <Route path="/wishlist" element={<Wishlist />} />
+          {/* Guests can check out; signed-in customers get their saved addresses */}
+          <Route path="/checkout" element={<Checkout />} />
+
           <Route
             path="/"
             element={
@@ -38,6 +82,33 @@ const App: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/account"
+            element={
+              <ProtectedRoute>
+                <Account />
+              </ProtectedRoute>
+            }
+          >
+            <Route index element={<Navigate to="profile" replace />} />
+            <Route path="profile" element={<ProfileSettings />} />
+            <Route path="orders" element={<OrderHistory />} />
+            <Route path="orders/:id" element={<OrderDetail />} />
+            <Route path="addresses" element={<AddressBook />} />
+            <Route path="password" element={<ChangePassword />} />
+            <Route path="email" element={<ChangeEmail />} />
+            <Route path="security" element={<TwoFactorSettings />} />
+            <Route path="sessions" element={<ActiveSessions />} />
+            <Route path="delete" element={<DeleteAccount />} />
+          </Route>
+          <Route
+            path={ADMIN_PATH}
+            element={
+              <ProtectedRoute {...ADMIN_ACCESS}>
+                <AdminDashboard />
+              </ProtectedRoute>
+            }
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Container>
@@ -0,0 +1,23 @@
+import type { ApolloCache, FetchResult, Reference } from '@apollo/client';
+import { ADDRESS_FIELDS } from '../graphql/operations';
+
+// createAddress update: append the new address to the cached myAddresses list that the
+// address book, checkout and order details all read, instead of refetching it
+export function appendCreatedAddress(
+  cache: ApolloCache<unknown>,
+  { data }: Omit<FetchResult, 'context'>
+): void {
+  const created = data?.createAddress;
+  if (!created) {
+    return;
+  }
+
+  cache.modify<{ myAddresses: Reference[] }>({
+    fields: {
+      myAddresses: (existing = []) => {
+        const ref = cache.writeFragment({ data: created, fragment: ADDRESS_FIELDS });
+        return ref ? [...existing, ref] : existing;
+      },
+    },
+  });
+}
@@ -7,6 +7,12 @@ export enum GraphQLErrorCode {
   FORBIDDEN = 'FORBIDDEN',
   BAD_USER_INPUT = 'BAD_USER_INPUT',
   INTERNAL_SERVER_ERROR = 'INTERNAL_SERVER_ERROR',
+  INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  CSRF_TOKEN_INVALID = 'CSRF_TOKEN_INVALID',
 }
 
 // Auth link to add Authorization header
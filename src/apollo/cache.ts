@@ -0,0 +1,42 @@
+import { InMemoryCache } from '@apollo/client';
+import type { Reference } from '@apollo/client';
+import { relayStylePagination } from '@apollo/client/utilities';
+
+// Paginated lists are cached once per filter/sort combination; fetchMore appends pages to the
+// matching list instead of replacing it.
+// Every query that selects a Product must include its slug (see PRODUCT_CARD_FIELDS).
+export const cache = new InMemoryCache({
+  typePolicies: {
+    Query: {
+      fields: {
+        products: relayStylePagination(['filter', 'sort']),
+        myOrders: relayStylePagination(['status']),
+        // Resolve product(slug) from the cache first, so a product already seen in the
+        // catalog renders immediately while the remaining detail fields load
+        product: {
+          read(_, { args, toReference }): Reference | undefined {
+            return args?.slug ? toReference({ __typename: 'Product', slug: args.slug }) : undefined;
+          },
+        },
+        // Orders are normalized by id, so the list rows and the detail view share one entry and
+        // a status change shows up in both
+        order: {
+          read(_, { args, toReference }): Reference | undefined {
+            return args?.id ? toReference({ __typename: 'Order', id: args.id }) : undefined;
+          },
+        },
+      },
+    },
+    // Products are looked up by slug in URLs, so slug is their cache identity
+    Product: {
+      keyFields: ['slug'],
+    },
+    Order: {
+      fields: {
+        // The history is always sent whole; replace it rather than merging event by event
+        statusHistory: { merge: false },
+        shippingAddress: { merge: true },
+      },
+    },
+  },
+});
@@ -1,13 +1,26 @@
-import { ApolloClient, InMemoryCache, HttpLink, from } from '@apollo/client';
+import { ApolloClient, from, split } from '@apollo/client';
+import type { Operation } from '@apollo/client';
+import { getMainDefinition } from '@apollo/client/utilities';
 import { authLink } from './authLink';
+import { cache } from './cache';
+import { csrfLink } from './csrfLink';
 import { errorLink } from './errorLink';
+import { refreshLink } from './refreshLink';
+import { retryLink } from './retryLink';
+import { httpLink } from './httpLink';
+import { wsLink } from './wsLink';
 
-const httpLink = new HttpLink({
-  uri: 'http://localhost:4000/graphql',
-  credentials: 'include', // Include cookies in requests
-});
+function isSubscription({ query }: Operation): boolean {
+  const definition = getMainDefinition(query);
+  return definition.kind === 'OperationDefinition' && definition.operation === 'subscription';
+}
 
+// Subscriptions go over the WebSocket, which authenticates once per connection (see wsLink);
+// queries and mutations take the HTTP chain
 export const apolloClient = new ApolloClient({
-  link: from([errorLink, authLink, httpLink]),
-  cache: new InMemoryCache(),
+  link: from([
+    errorLink,
+    split(isSubscription, wsLink, from([authLink, csrfLink, refreshLink, retryLink, httpLink])),
+  ]),
+  cache,
 });
@@ -0,0 +1,62 @@
+import { setContext } from '@apollo/client/link/context';
+
+// Constants
+// Must match the BFF (server/middleware/csrfProtection.ts)
+const CSRF_COOKIE_NAME = '__Host-csrf_token' as const;
+const CSRF_HEADER_NAME = 'x-csrf-token' as const;
+const CSRF_TOKEN_ENDPOINT = '/csrf-token' as const;
+
+let pendingTokenRequest: Promise<string | null> | null = null;
+
+function readCsrfCookie(): string | null {
+  const prefix = `${CSRF_COOKIE_NAME}=`;
+  const cookie = document.cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(prefix));
+
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+async function fetchCsrfToken(): Promise<string | null> {
+  try {
+    const response = await fetch(CSRF_TOKEN_ENDPOINT, { credentials: 'same-origin' });
+    const { csrfToken } = (await response.json()) as { csrfToken?: string };
+    return csrfToken || readCsrfCookie();
+  } catch (error) {
+    console.error('Failed to fetch CSRF token:', error);
+    return null;
+  }
+}
+
+// The BFF sets the cookie with the page; fetch it only when the page came from elsewhere
+export function getCsrfToken(): Promise<string | null> {
+  const token = readCsrfCookie();
+  if (token) {
+    return Promise.resolve(token);
+  }
+
+  if (!pendingTokenRequest) {
+    pendingTokenRequest = fetchCsrfToken().finally(() => {
+      pendingTokenRequest = null;
+    });
+  }
+  return pendingTokenRequest;
+}
+
+// CSRF link: echoes the double-submit token in a header the BFF compares with its cookie
+export const csrfLink = setContext(async (_, { headers }) => {
+  const token = await getCsrfToken();
+
+  const typedHeaders: Record<string, string> = {
+    ...(headers as Record<string, string>),
+  };
+
+  if (token) {
+    typedHeaders[CSRF_HEADER_NAME] = token;
+  }
+
+  return {
+    headers: typedHeaders,
+  };
+});
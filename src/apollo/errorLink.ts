@@ -1,27 +1,12 @@
 import { onError } from '@apollo/client/link/error';
-import { GraphQLError } from 'graphql';
-import { clearTokens } from '../utilities/tokenStorage';
-import { store } from '../redux/store';
-import { clearAuth } from '../redux/slices/authSlice';
-import { GraphQLErrorCode } from './authLink';
+import { isServerUnavailableError } from './retryLink';
+import { reportServerUnreachable } from '../utilities/connectivityMonitor';
 
-// Type guard for auth errors
-export function isAuthError(errors: ReadonlyArray<GraphQLError>): boolean {
-  return errors.some(
-    (error) =>
-      error.extensions?.code === GraphQLErrorCode.UNAUTHENTICATED ||
-      error.extensions?.code === GraphQLErrorCode.FORBIDDEN
-  );
-}
-
-// Error link to handle authentication errors
+// Error link to log GraphQL and network errors, and to flag the server as unreachable.
+// Expired sessions are handled by refreshLink, which clears auth only if the refresh fails.
+// Queries only get here once retryLink has given up.
 export const errorLink = onError(({ graphQLErrors, networkError }) => {
   if (graphQLErrors) {
-    if (isAuthError(graphQLErrors)) {
-      clearTokens();
-      store.dispatch(clearAuth());
-    }
-
     graphQLErrors.forEach(({ message, locations, path }) => {
       console.error(
         `[GraphQL error]: Message: ${message}, Location: ${locations}, Path: ${path}`
@@ -31,5 +16,9 @@ export const errorLink = onError(({ graphQLErrors, networkError }) => {
 
   if (networkError) {
     console.error(`[Network error]: ${networkError}`);
+
+    if (isServerUnavailableError(networkError)) {
+      reportServerUnreachable();
+    }
   }
 });
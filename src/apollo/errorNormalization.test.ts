@@ -0,0 +1,137 @@
+import { ApolloError } from '@apollo/client';
+import type { GraphQLFormattedError } from 'graphql';
+import { GraphQLErrorCode } from './authLink';
+import { classifyGraphQLErrors, formatRetryAfter, normalizeError } from './errorNormalization';
+import { AuthErrorType } from '../redux/slices/authSlice';
+
+function graphQLError(
+  message: string,
+  extensions: Record<string, unknown> = {}
+): GraphQLFormattedError {
+  return { message, extensions };
+}
+
+describe('classifyGraphQLErrors', () => {
+  it.each([
+    [GraphQLErrorCode.UNAUTHENTICATED, AuthErrorType.UNAUTHENTICATED],
+    [GraphQLErrorCode.FORBIDDEN, AuthErrorType.FORBIDDEN],
+    [GraphQLErrorCode.INVALID_CREDENTIALS, AuthErrorType.INVALID_CREDENTIALS],
+    [GraphQLErrorCode.EMAIL_NOT_VERIFIED, AuthErrorType.EMAIL_NOT_VERIFIED],
+    [GraphQLErrorCode.ACCOUNT_LOCKED, AuthErrorType.ACCOUNT_LOCKED],
+    [GraphQLErrorCode.INTERNAL_SERVER_ERROR, AuthErrorType.SERVER_ERROR],
+    [GraphQLErrorCode.CSRF_TOKEN_INVALID, AuthErrorType.CSRF_TOKEN_INVALID],
+  ])('maps %s to %s', (code, type) => {
+    expect(classifyGraphQLErrors([graphQLError('Nope', { code })])).toEqual({
+      type,
+      message: 'Nope',
+    });
+  });
+
+  it('falls back to UNKNOWN for codes it does not know', () => {
+    expect(classifyGraphQLErrors([graphQLError('Odd', { code: 'TEAPOT' })]).type).toBe(
+      AuthErrorType.UNKNOWN
+    );
+    expect(classifyGraphQLErrors([graphQLError('No code')]).type).toBe(AuthErrorType.UNKNOWN);
+  });
+
+  it('collects validation messages by field path', () => {
+    const authError = classifyGraphQLErrors([
+      graphQLError('Invalid email', { code: GraphQLErrorCode.BAD_USER_INPUT, field: 'email' }),
+      graphQLError('Invalid postal code', {
+        code: GraphQLErrorCode.VALIDATION_FAILED,
+        path: ['address', 'postalCode'],
+      }),
+      graphQLError('Something else', { code: GraphQLErrorCode.FORBIDDEN, field: 'name' }),
+    ]);
+
+    expect(authError).toEqual({
+      type: AuthErrorType.VALIDATION_FAILED,
+      message: 'Invalid email',
+      fieldErrors: {
+        email: 'Invalid email',
+        'address.postalCode': 'Invalid postal code',
+      },
+    });
+  });
+
+  it('leaves out fieldErrors when no validation error names a field', () => {
+    const authError = classifyGraphQLErrors([
+      graphQLError('Invalid input', { code: GraphQLErrorCode.VALIDATION_FAILED }),
+    ]);
+
+    expect(authError).not.toHaveProperty('fieldErrors');
+  });
+
+  it('reads how long a rate-limited user has to wait', () => {
+    expect(
+      classifyGraphQLErrors([
+        graphQLError('Slow down', { code: GraphQLErrorCode.RATE_LIMITED, retryAfter: '45' }),
+      ])
+    ).toEqual({ type: AuthErrorType.RATE_LIMITED, message: 'Slow down', retryAfterSeconds: 45 });
+  });
+
+  it.each([undefined, 0, -5, 'soon'])('ignores an unusable retryAfter (%p)', (retryAfter) => {
+    const authError = classifyGraphQLErrors([
+      graphQLError('Slow down', { code: GraphQLErrorCode.RATE_LIMITED, retryAfter }),
+    ]);
+
+    expect(authError).not.toHaveProperty('retryAfterSeconds');
+  });
+});
+
+describe('normalizeError', () => {
+  it('classifies the GraphQL errors of an ApolloError', () => {
+    const error = new ApolloError({
+      graphQLErrors: [graphQLError('Wrong password', { code: 'INVALID_CREDENTIALS' })],
+    });
+
+    expect(normalizeError(error, 'Login failed')).toEqual({
+      type: AuthErrorType.INVALID_CREDENTIALS,
+      message: 'Wrong password',
+    });
+  });
+
+  it('classifies GraphQL errors carried in the body of a non-2xx response', () => {
+    const networkError = Object.assign(new Error('Response not successful'), {
+      statusCode: 403,
+      result: { errors: [graphQLError('Reload the page', { code: 'CSRF_TOKEN_INVALID' })] },
+    });
+
+    expect(normalizeError(new ApolloError({ networkError }), 'Login failed')).toEqual({
+      type: AuthErrorType.CSRF_TOKEN_INVALID,
+      message: 'Reload the page',
+    });
+  });
+
+  it('reports a failed request as a network error', () => {
+    const error = new ApolloError({ networkError: new TypeError('Failed to fetch') });
+
+    expect(normalizeError(error, 'Login failed')).toEqual({
+      type: AuthErrorType.NETWORK_ERROR,
+      message: 'Unable to reach the server. Please check your connection and try again.',
+    });
+  });
+
+  it('keeps the message of any other error, or uses the fallback', () => {
+    expect(normalizeError(new Error('Boom'), 'Login failed')).toEqual({
+      type: AuthErrorType.UNKNOWN,
+      message: 'Boom',
+    });
+    expect(normalizeError('not an error', 'Login failed')).toEqual({
+      type: AuthErrorType.UNKNOWN,
+      message: 'Login failed',
+    });
+  });
+});
+
+describe('formatRetryAfter', () => {
+  it.each([
+    [1, '1 second'],
+    [45, '45 seconds'],
+    [119, '119 seconds'],
+    [120, '2 minutes'],
+    [150, '3 minutes'],
+  ])('formats %i seconds as "%s"', (seconds, text) => {
+    expect(formatRetryAfter(seconds)).toBe(text);
+  });
+});
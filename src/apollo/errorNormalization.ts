@@ -0,0 +1,109 @@
+import { ApolloError } from '@apollo/client';
+import type { GraphQLFormattedError } from 'graphql';
+import { AuthErrorType } from '../redux/slices/authSlice';
+import type { AuthError } from '../redux/slices/authSlice';
+import { GraphQLErrorCode } from './authLink';
+
+const ERROR_TYPE_BY_CODE: Record<GraphQLErrorCode, AuthErrorType> = {
+  [GraphQLErrorCode.UNAUTHENTICATED]: AuthErrorType.UNAUTHENTICATED,
+  [GraphQLErrorCode.FORBIDDEN]: AuthErrorType.FORBIDDEN,
+  [GraphQLErrorCode.BAD_USER_INPUT]: AuthErrorType.VALIDATION_FAILED,
+  [GraphQLErrorCode.INTERNAL_SERVER_ERROR]: AuthErrorType.SERVER_ERROR,
+  [GraphQLErrorCode.INVALID_CREDENTIALS]: AuthErrorType.INVALID_CREDENTIALS,
+  [GraphQLErrorCode.EMAIL_NOT_VERIFIED]: AuthErrorType.EMAIL_NOT_VERIFIED,
+  [GraphQLErrorCode.RATE_LIMITED]: AuthErrorType.RATE_LIMITED,
+  [GraphQLErrorCode.ACCOUNT_LOCKED]: AuthErrorType.ACCOUNT_LOCKED,
+  [GraphQLErrorCode.VALIDATION_FAILED]: AuthErrorType.VALIDATION_FAILED,
+  [GraphQLErrorCode.CSRF_TOKEN_INVALID]: AuthErrorType.CSRF_TOKEN_INVALID,
+};
+
+function isGraphQLErrorCode(code: unknown): code is GraphQLErrorCode {
+  return Object.values(GraphQLErrorCode).includes(code as GraphQLErrorCode);
+}
+
+export function getErrorType(error: GraphQLFormattedError): AuthErrorType {
+  const code = error.extensions?.code;
+  return isGraphQLErrorCode(code) ? ERROR_TYPE_BY_CODE[code] : AuthErrorType.UNKNOWN;
+}
+
+// Field path from extensions.field ("email") or extensions.path (["address", "postalCode"])
+function getFieldPath(error: GraphQLFormattedError): string | null {
+  const field = error.extensions?.field ?? error.extensions?.path;
+
+  if (typeof field === 'string' && field) {
+    return field;
+  }
+  if (Array.isArray(field) && field.length > 0) {
+    return field.join('.');
+  }
+  return null;
+}
+
+// Reduce a GraphQL error list to one AuthError; validation errors keep their field paths
+export function classifyGraphQLErrors(errors: ReadonlyArray<GraphQLFormattedError>): AuthError {
+  const [primary] = errors;
+  const type = getErrorType(primary);
+  const authError: AuthError = { type, message: primary.message };
+
+  if (type === AuthErrorType.VALIDATION_FAILED) {
+    const fieldErrors: Record<string, string> = {};
+    errors.forEach((error) => {
+      const fieldPath = getFieldPath(error);
+      if (fieldPath && getErrorType(error) === AuthErrorType.VALIDATION_FAILED) {
+        fieldErrors[fieldPath] = error.message;
+      }
+    });
+
+    if (Object.keys(fieldErrors).length > 0) {
+      authError.fieldErrors = fieldErrors;
+    }
+  }
+
+  if (type === AuthErrorType.RATE_LIMITED) {
+    const retryAfter = Number(primary.extensions?.retryAfter);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      authError.retryAfterSeconds = retryAfter;
+    }
+  }
+
+  return authError;
+}
+
+// "45 seconds", "3 minutes": how long a rate-limited user has to wait
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 120) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  return `${Math.ceil(seconds / 60)} minutes`;
+}
+
+// GraphQL errors carried in the body of a non-2xx response (e.g. a 403 from the BFF)
+export function getResponseErrors(networkError: unknown): ReadonlyArray<GraphQLFormattedError> {
+  const result = (networkError as { result?: unknown } | null)?.result;
+  const errors = (result as { errors?: unknown } | null | undefined)?.errors;
+  return Array.isArray(errors) ? (errors as GraphQLFormattedError[]) : [];
+}
+
+// Normalize anything a mutation or query can throw into an AuthError
+export function normalizeError(error: unknown, fallbackMessage: string): AuthError {
+  if (error instanceof ApolloError) {
+    if (error.graphQLErrors.length > 0) {
+      return classifyGraphQLErrors(error.graphQLErrors);
+    }
+    const responseErrors = getResponseErrors(error.networkError);
+    if (responseErrors.length > 0) {
+      return classifyGraphQLErrors(responseErrors);
+    }
+    if (error.networkError) {
+      return {
+        type: AuthErrorType.NETWORK_ERROR,
+        message: 'Unable to reach the server. Please check your connection and try again.',
+      };
+    }
+  }
+
+  return {
+    type: AuthErrorType.UNKNOWN,
+    message: (error instanceof Error && error.message) || fallbackMessage,
+  };
+}
@@ -0,0 +1,7 @@
+import { HttpLink } from '@apollo/client';
+import { runtimeConfig } from '../config/runtimeConfig';
+
+export const httpLink = new HttpLink({
+  uri: runtimeConfig.graphqlEndpoint,
+  credentials: 'same-origin', // The BFF's refresh cookie is first-party
+});
@@ -0,0 +1,239 @@
+import { ApolloError, ApolloLink, Observable, execute, gql } from '@apollo/client';
+import type { FetchResult, Operation } from '@apollo/client';
+import { GraphQLErrorCode } from './authLink';
+import { isRefreshRejectedError, refreshAccessToken, refreshLink } from './refreshLink';
+import { store } from '../redux/store';
+import { setTokens } from '../redux/slices/authSlice';
+import { getAccessToken, saveTokens } from '../utilities/tokenStorage';
+
+// Answers the RefreshToken mutation, which refreshLink sends straight to httpLink
+let mockRefresh: () => Observable<FetchResult>;
+
+jest.mock('./httpLink', () => {
+  const { ApolloLink: Link } = jest.requireActual('@apollo/client');
+  return { httpLink: new Link(() => mockRefresh()) };
+});
+
+jest.mock('./csrfLink', () => {
+  const { ApolloLink: Link } = jest.requireActual('@apollo/client');
+  return {
+    csrfLink: new Link(
+      (operation: Operation, forward: (op: Operation) => Observable<FetchResult>) =>
+        forward(operation)
+    ),
+  };
+});
+
+const ME_QUERY = gql`
+  query Me {
+    me {
+      id
+    }
+  }
+`;
+
+const LOGIN_MUTATION = gql`
+  mutation Login {
+    login {
+      accessToken
+    }
+  }
+`;
+
+const UNAUTHENTICATED_RESULT: FetchResult = {
+  errors: [{ message: 'Token expired', extensions: { code: GraphQLErrorCode.UNAUTHENTICATED } }],
+};
+
+function httpError(statusCode: number): Error {
+  return Object.assign(new Error(`Response not successful: Received status code ${statusCode}`), {
+    name: 'ServerError',
+    statusCode,
+  });
+}
+
+// Resolves once the refresh mutation has been sent, and settles it on demand
+function deferRefresh(): {
+  succeed: (accessToken: string) => void;
+  fail: (error: unknown) => void;
+} {
+  const observers: Array<{
+    next: (result: FetchResult) => void;
+    complete: () => void;
+    error: (e: unknown) => void;
+  }> = [];
+  mockRefresh = jest.fn(
+    () =>
+      new Observable<FetchResult>((observer) => {
+        observers.push(observer);
+      })
+  );
+
+  return {
+    succeed: (accessToken) =>
+      observers.forEach((observer) => {
+        observer.next({ data: { refreshToken: { accessToken } } });
+        observer.complete();
+      }),
+    fail: (error) => observers.forEach((observer) => observer.error(error)),
+  };
+}
+
+// Terminating link standing in for the API: rejects every token but validToken
+function createApi(validToken: string): { link: ApolloLink; authorizations: string[] } {
+  const authorizations: string[] = [];
+  const link = new ApolloLink(
+    (operation) =>
+      new Observable<FetchResult>((observer) => {
+        const authorization = (operation.getContext().headers?.authorization as string) ?? '';
+        authorizations.push(authorization);
+        observer.next(
+          authorization === `Bearer ${validToken}`
+            ? { data: { me: { id: 1 } } }
+            : UNAUTHENTICATED_RESULT
+        );
+        observer.complete();
+      })
+  );
+  return { link, authorizations };
+}
+
+function run(link: ApolloLink, query = ME_QUERY): Promise<FetchResult> {
+  return new Promise((resolve, reject) => {
+    execute(link, { query }).subscribe({ next: resolve, error: reject });
+  });
+}
+
+// Lets pending promise callbacks (the refresh request, the replay) run
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('refreshLink', () => {
+  beforeEach(() => {
+    saveTokens('expired-token');
+    store.dispatch(setTokens({ accessToken: 'expired-token' }));
+  });
+
+  it('refreshes once and replays an operation rejected as UNAUTHENTICATED', async () => {
+    const refresh = deferRefresh();
+    const api = createApi('fresh-token');
+
+    const result = run(ApolloLink.from([refreshLink, api.link]));
+    await flushPromises();
+    refresh.succeed('fresh-token');
+
+    await expect(result).resolves.toEqual({ data: { me: { id: 1 } } });
+    expect(api.authorizations).toEqual(['', 'Bearer fresh-token']);
+    expect(getAccessToken()).toBe('fresh-token');
+    expect(store.getState().auth.accessToken).toBe('fresh-token');
+  });
+
+  it('queues operations that fail during a refresh behind a single refresh request', async () => {
+    const refresh = deferRefresh();
+    const api = createApi('fresh-token');
+    const link = ApolloLink.from([refreshLink, api.link]);
+
+    const results = Promise.all([run(link), run(link), run(link)]);
+    await flushPromises();
+    expect(mockRefresh).toHaveBeenCalledTimes(1);
+
+    refresh.succeed('fresh-token');
+
+    await expect(results).resolves.toEqual(Array(3).fill({ data: { me: { id: 1 } } }));
+    expect(api.authorizations.filter((header) => header === 'Bearer fresh-token')).toHaveLength(3);
+  });
+
+  it('shares one in-flight refresh between concurrent callers', async () => {
+    const refresh = deferRefresh();
+
+    const first = refreshAccessToken();
+    const second = refreshAccessToken();
+    await flushPromises();
+    refresh.succeed('fresh-token');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['fresh-token', 'fresh-token']);
+    expect(mockRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new refresh once the previous one has settled', async () => {
+    let refresh = deferRefresh();
+    const first = refreshAccessToken();
+    await flushPromises();
+    refresh.succeed('first-token');
+    await first;
+
+    refresh = deferRefresh();
+    const second = refreshAccessToken();
+    await flushPromises();
+    refresh.succeed('second-token');
+
+    await expect(second).resolves.toBe('second-token');
+  });
+
+  it('does not refresh for operations that manage the session themselves', async () => {
+    mockRefresh = jest.fn();
+    const api = createApi('fresh-token');
+
+    await expect(run(ApolloLink.from([refreshLink, api.link]), LOGIN_MUTATION)).resolves.toEqual(
+      UNAUTHENTICATED_RESULT
+    );
+    expect(mockRefresh).not.toHaveBeenCalled();
+  });
+
+  it('ends the session and surfaces the original error when the refresh is rejected', async () => {
+    const refresh = deferRefresh();
+    const api = createApi('fresh-token');
+
+    const result = run(ApolloLink.from([refreshLink, api.link]));
+    await flushPromises();
+    refresh.fail(httpError(401));
+
+    await expect(result).resolves.toEqual(UNAUTHENTICATED_RESULT);
+    expect(getAccessToken()).toBeNull();
+    expect(store.getState().auth.accessToken).toBeNull();
+  });
+
+  it.each([
+    ['a network failure', new TypeError('Failed to fetch')],
+    ['a 503 response', httpError(503)],
+  ])('keeps the session when the refresh fails with %s', async (_description, error) => {
+    const refresh = deferRefresh();
+    const api = createApi('fresh-token');
+
+    const result = run(ApolloLink.from([refreshLink, api.link]));
+    await flushPromises();
+    refresh.fail(error);
+
+    await expect(result).rejects.toBe(error);
+    expect(getAccessToken()).toBe('expired-token');
+    expect(store.getState().auth.accessToken).toBe('expired-token');
+  });
+});
+
+describe('isRefreshRejectedError', () => {
+  it('treats a 401 or an UNAUTHENTICATED error as a rejected refresh', () => {
+    expect(isRefreshRejectedError(httpError(401))).toBe(true);
+    expect(
+      isRefreshRejectedError(new ApolloError({ graphQLErrors: UNAUTHENTICATED_RESULT.errors }))
+    ).toBe(true);
+    expect(
+      isRefreshRejectedError(Object.assign(httpError(400), { result: UNAUTHENTICATED_RESULT }))
+    ).toBe(true);
+  });
+
+  it('does not treat transport, server or CSRF failures as a rejected refresh', () => {
+    expect(isRefreshRejectedError(new TypeError('Failed to fetch'))).toBe(false);
+    expect(isRefreshRejectedError(httpError(502))).toBe(false);
+    expect(
+      isRefreshRejectedError(
+        Object.assign(httpError(403), {
+          result: {
+            errors: [
+              { message: 'Bad token', extensions: { code: GraphQLErrorCode.CSRF_TOKEN_INVALID } },
+            ],
+          },
+        })
+      )
+    ).toBe(false);
+  });
+});
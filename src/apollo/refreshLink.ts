@@ -0,0 +1,157 @@
+import { ApolloError, ApolloLink, Observable, FetchResult, execute, from } from '@apollo/client';
+import type { GraphQLFormattedError } from 'graphql';
+import { REFRESH_TOKEN_MUTATION } from '../graphql/operations';
+import { clearTokens, saveTokens } from '../utilities/tokenStorage';
+import { store } from '../redux/store';
+import { clearAuth, setTokens } from '../redux/slices/authSlice';
+import { broadcastSessionEvent, SessionEventType } from '../utilities/sessionSync';
+import { GraphQLErrorCode } from './authLink';
+import { csrfLink } from './csrfLink';
+import { getResponseErrors } from './errorNormalization';
+import { httpLink } from './httpLink';
+
+// Operations that must never trigger a refresh (they run without a session or manage it)
+export enum RefreshExemptOperation {
+  LOGIN = 'Login',
+  REGISTER = 'Register',
+  LOGOUT = 'Logout',
+  REFRESH_TOKEN = 'RefreshToken',
+  VERIFY_MFA = 'VerifyMfa',
+  OAUTH_LOGIN = 'OAuthLogin',
+  LINK_OAUTH_ACCOUNT = 'LinkOAuthAccount',
+}
+
+const EXEMPT_OPERATIONS: ReadonlyArray<string> = Object.values(RefreshExemptOperation);
+const UNAUTHORIZED_STATUS_CODE = 401 as const;
+
+// Single in-flight refresh shared by every operation that fails while it runs
+let pendingRefresh: Promise<string> | null = null;
+
+export function isUnauthenticatedError(
+  errors: ReadonlyArray<GraphQLFormattedError> | undefined
+): boolean {
+  return (errors ?? []).some(
+    (error) => error.extensions?.code === GraphQLErrorCode.UNAUTHENTICATED
+  );
+}
+
+// True when the server refused the refresh cookie, i.e. the session is over. Anything else
+// (no connection, a timeout, a 5xx, a rejected CSRF token) leaves the session intact.
+export function isRefreshRejectedError(error: unknown): boolean {
+  const graphQLErrors = error instanceof ApolloError ? error.graphQLErrors : [];
+  const networkError = error instanceof ApolloError ? error.networkError : error;
+  const statusCode = (networkError as { statusCode?: number } | null)?.statusCode;
+
+  return (
+    statusCode === UNAUTHORIZED_STATUS_CODE ||
+    isUnauthenticatedError(graphQLErrors) ||
+    isUnauthenticatedError(getResponseErrors(networkError))
+  );
+}
+
+async function requestNewAccessToken(): Promise<string> {
+  // Sent straight to httpLink so the refresh itself never re-enters this link.
+  // The refresh rides on the cookie, so it still needs the CSRF header.
+  const result = await new Promise<FetchResult>((resolve, reject) => {
+    execute(from([csrfLink, httpLink]), { query: REFRESH_TOKEN_MUTATION }).subscribe({
+      next: resolve,
+      error: reject,
+    });
+  });
+
+  const accessToken = (result.data?.refreshToken as { accessToken?: string } | undefined)
+    ?.accessToken;
+
+  if (result.errors && result.errors.length > 0) {
+    throw new ApolloError({ graphQLErrors: result.errors });
+  }
+  if (!accessToken) {
+    throw new Error('Token refresh failed');
+  }
+
+  return accessToken;
+}
+
+// Exchange the HttpOnly refresh cookie for a new access token.
+// Concurrent callers share the same request. The session is cleared only if the server
+// rejected the refresh; a failed request leaves it for the next attempt.
+export function refreshAccessToken(): Promise<string> {
+  if (!pendingRefresh) {
+    pendingRefresh = requestNewAccessToken()
+      .then((accessToken) => {
+        saveTokens(accessToken);
+        store.dispatch(setTokens({ accessToken }));
+        broadcastSessionEvent({ type: SessionEventType.TOKEN_REFRESHED });
+        return accessToken;
+      })
+      .catch((error: unknown) => {
+        if (isRefreshRejectedError(error)) {
+          clearTokens();
+          store.dispatch(clearAuth());
+        }
+        throw error;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+
+  return pendingRefresh;
+}
+
+// Refresh link: replays operations rejected as UNAUTHENTICATED once a new access token is issued
+export const refreshLink = new ApolloLink((operation, forward) => {
+  if (EXEMPT_OPERATIONS.includes(operation.operationName)) {
+    return forward(operation);
+  }
+
+  return new Observable<FetchResult>((observer) => {
+    let innerSubscription: { unsubscribe: () => void } | null = null;
+    let retrying = false;
+
+    const replay = (accessToken: string): void => {
+      const { headers } = operation.getContext();
+      operation.setContext({
+        headers: {
+          ...(headers as Record<string, string>),
+          authorization: `Bearer ${accessToken}`,
+        },
+      });
+      innerSubscription = forward(operation).subscribe(observer);
+    };
+
+    innerSubscription = forward(operation).subscribe({
+      next: (result) => {
+        if (!isUnauthenticatedError(result.errors)) {
+          observer.next(result);
+          return;
+        }
+
+        retrying = true;
+        refreshAccessToken()
+          .then(replay)
+          .catch((error: unknown) => {
+            if (!isRefreshRejectedError(error)) {
+              // The session may still be good; fail this operation without signing out
+              observer.error(error);
+              return;
+            }
+            // Session is over: surface the original UNAUTHENTICATED result
+            observer.next(result);
+            observer.complete();
+          });
+      },
+      error: (error) => observer.error(error),
+      complete: () => {
+        // The replayed operation completes the observer once the refresh settles
+        if (!retrying) {
+          observer.complete();
+        }
+      },
+    });
+
+    return (): void => {
+      innerSubscription?.unsubscribe();
+    };
+  });
+});
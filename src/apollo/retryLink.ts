@@ -0,0 +1,39 @@
+import { RetryLink } from '@apollo/client/link/retry';
+import type { Operation } from '@apollo/client';
+import { getMainDefinition } from '@apollo/client/utilities';
+
+// Constants
+const MAX_ATTEMPTS = 4 as const; // Includes the initial request
+const INITIAL_DELAY_MS = 300 as const;
+const MAX_DELAY_MS = 5_000 as const;
+const UNAVAILABLE_STATUS_CODES: ReadonlyArray<number> = [502, 503, 504];
+
+// Failed fetches (no response) and gateway errors mean the server could not be reached.
+// Aborted requests were cancelled on purpose and are not failures.
+export function isServerUnavailableError(error: unknown): boolean {
+  if (!(error instanceof Error) || error.name === 'AbortError') {
+    return false;
+  }
+
+  const statusCode = (error as Error & { statusCode?: number }).statusCode;
+  return statusCode === undefined || UNAVAILABLE_STATUS_CODES.includes(statusCode);
+}
+
+// Only queries are safe to resend; a mutation may have been applied before the connection dropped
+function isQuery(operation: Operation): boolean {
+  const definition = getMainDefinition(operation.query);
+  return definition.kind === 'OperationDefinition' && definition.operation === 'query';
+}
+
+// Retry link: retries queries that hit network failures with jittered exponential backoff
+export const retryLink = new RetryLink({
+  delay: {
+    initial: INITIAL_DELAY_MS,
+    max: MAX_DELAY_MS,
+    jitter: true,
+  },
+  attempts: {
+    max: MAX_ATTEMPTS,
+    retryIf: (error, operation): boolean => isQuery(operation) && isServerUnavailableError(error),
+  },
+});
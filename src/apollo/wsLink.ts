@@ -0,0 +1,64 @@
+import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
+import { createClient, CloseCode } from 'graphql-ws';
+import { runtimeConfig } from '../config/runtimeConfig';
+import { store } from '../redux/store';
+import { getAccessToken, isTokenExpired } from '../utilities/tokenStorage';
+import { getBackoffDelay } from '../utilities/connectivityMonitor';
+import { refreshAccessToken } from './refreshLink';
+
+// Constants
+const RECONNECT_INITIAL_DELAY_MS = 1_000 as const;
+const RECONNECT_MAX_DELAY_MS = 30_000 as const;
+
+// Read on every (re)connect, so a new socket always carries the latest token. An expired token
+// is refreshed first rather than letting the server reject the connection.
+async function getConnectionParams(): Promise<Record<string, string>> {
+  let token = getAccessToken();
+
+  if (token && isTokenExpired(token)) {
+    token = await refreshAccessToken().catch(() => null);
+  }
+
+  return token ? { authorization: `Bearer ${token}` } : {};
+}
+
+// The socket opens lazily with the first subscription and closes after the last one ends
+const wsClient = createClient({
+  url: runtimeConfig.subscriptionEndpoint,
+  connectionParams: getConnectionParams,
+  lazy: true,
+  retryAttempts: Infinity,
+  shouldRetry: () => true,
+  retryWait: (retries) =>
+    new Promise((resolve) => {
+      setTimeout(
+        resolve,
+        getBackoffDelay(retries, RECONNECT_INITIAL_DELAY_MS, RECONNECT_MAX_DELAY_MS)
+      );
+    }),
+  on: {
+    closed: (event) => {
+      // The server rejected the token; the refresh restarts the socket through the subscriber
+      // below
+      if ((event as CloseEvent | undefined)?.code === CloseCode.Forbidden && getAccessToken()) {
+        refreshAccessToken().catch((err: unknown) => {
+          console.error('Subscription re-authentication failed:', err);
+        });
+      }
+    },
+  },
+});
+
+// The token is only sent when the socket connects, so a login, logout or refresh (in this or
+// another tab) restarts it. Active subscriptions resume on the new connection.
+let socketToken = store.getState().auth.accessToken;
+store.subscribe(() => {
+  const { accessToken } = store.getState().auth;
+  if (accessToken !== socketToken) {
+    socketToken = accessToken;
+    wsClient.terminate();
+  }
+});
+
+// WebSocket link for subscriptions, speaking the graphql-ws protocol
+export const wsLink = new GraphQLWsLink(wsClient);
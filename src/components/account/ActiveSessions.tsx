@@ -0,0 +1,160 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+import { useMutation, useQuery } from '@apollo/client';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  MY_SESSIONS_QUERY,
+  REVOKE_SESSION_MUTATION,
+  REVOKE_OTHER_SESSIONS_MUTATION,
+} from '../../graphql/operations';
+import { logoutUser } from '../../redux/thunks/authThunks';
+import type { LoginLocationState } from '../../utilities/redirect';
+import type { AppDispatch } from '../../redux/store';
+
+// Interfaces
+interface UserSession {
+  id: string;
+  device: string | null;
+  browser: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+export const ActiveSessions: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+
+  const { data, loading, error } = useQuery(MY_SESSIONS_QUERY, {
+    fetchPolicy: 'cache-and-network',
+  });
+  const refetchQueries = [{ query: MY_SESSIONS_QUERY }];
+  const [revokeSession, revokeState] = useMutation(REVOKE_SESSION_MUTATION, { refetchQueries });
+  const [revokeOtherSessions, revokeOthersState] = useMutation(REVOKE_OTHER_SESSIONS_MUTATION, {
+    refetchQueries,
+  });
+
+  const sessions: ReadonlyArray<UserSession> = data?.mySessions ?? [];
+  const hasOtherSessions = sessions.some((session) => !session.current);
+  const busy = revokeState.loading || revokeOthersState.loading;
+  const mutationError = revokeState.error || revokeOthersState.error;
+
+  const handleRevoke = async (session: UserSession): Promise<void> => {
+    // Ending this browser's session must also clear local state and the refresh cookie
+    if (session.current) {
+      await dispatch(logoutUser());
+      const state: LoginLocationState = { message: 'You have been signed out of this device.' };
+      navigate('/login', { state });
+      return;
+    }
+
+    try {
+      await revokeSession({ variables: { sessionId: session.id } });
+    } catch (err) {
+      console.error('Failed to revoke session:', err);
+    }
+  };
+
+  const handleRevokeOthers = async (): Promise<void> => {
+    try {
+      await revokeOtherSessions();
+    } catch (err) {
+      console.error('Failed to revoke other sessions:', err);
+    }
+  };
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">Active Sessions</Typography>
+        <Button
+          variant="outlined"
+          color="error"
+          onClick={handleRevokeOthers}
+          disabled={busy || !hasOtherSessions}
+        >
+          Sign Out Everywhere Else
+        </Button>
+      </Box>
+
+      {(error || mutationError) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {(error || mutationError)?.message}
+        </Alert>
+      )}
+
+      {loading && sessions.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Device</TableCell>
+                <TableCell>Browser</TableCell>
+                <TableCell>IP Address</TableCell>
+                <TableCell>Last Seen</TableCell>
+                <TableCell>Signed In</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    {session.device || 'Unknown device'}
+                    {session.current && (
+                      <Chip label="This device" color="primary" size="small" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>{session.browser || 'Unknown'}</TableCell>
+                  <TableCell>{session.ipAddress || 'Unknown'}</TableCell>
+                  <TableCell>{formatDate(session.lastSeenAt)}</TableCell>
+                  <TableCell>{formatDate(session.createdAt)}</TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      color="error"
+                      onClick={() => handleRevoke(session)}
+                      disabled={busy}
+                    >
+                      {session.current ? 'Sign Out' : 'Revoke'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Grid,
+  Typography,
+} from '@mui/material';
+import {
+  CREATE_ADDRESS_MUTATION,
+  DELETE_ADDRESS_MUTATION,
+  MY_ADDRESSES_QUERY,
+  SET_DEFAULT_ADDRESS_MUTATION,
+  UPDATE_ADDRESS_MUTATION,
+} from '../../graphql/operations';
+import { AddressDialog } from '../addresses/AddressDialog';
+import { appendCreatedAddress } from '../../apollo/addressCache';
+import { normalizeError } from '../../apollo/errorNormalization';
+import {
+  formatAddress,
+  isDefaultAddress,
+  AddressDefault,
+  ADDRESS_DEFAULT_LABELS,
+} from '../../utilities/addresses';
+import type { Address, AddressInput } from '../../utilities/addresses';
+import type { AuthError } from '../../redux/slices/authSlice';
+
+// Interfaces
+interface EditorState {
+  open: boolean;
+  address: Address | null;
+}
+
+// Edits the one cached address list: checkout and order details read MY_ADDRESSES_QUERY too, so
+// changes are written into that list rather than refetched
+export const AddressBook: React.FC = () => {
+  const [editor, setEditor] = useState<EditorState>({ open: false, address: null });
+  const [saveError, setSaveError] = useState<AuthError | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Address | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  const { data, loading, error } = useQuery(MY_ADDRESSES_QUERY, {
+    fetchPolicy: 'cache-and-network',
+  });
+  const addresses: ReadonlyArray<Address> = data?.myAddresses ?? [];
+
+  const [createAddress, createState] = useMutation(CREATE_ADDRESS_MUTATION, {
+    update: appendCreatedAddress,
+  });
+  const [updateAddress, updateState] = useMutation(UPDATE_ADDRESS_MUTATION);
+  const [deleteAddress, deleteState] = useMutation(DELETE_ADDRESS_MUTATION);
+  // Returns every address with its new flags; normalization updates the list in place
+  const [setDefaultAddress, setDefaultState] = useMutation(SET_DEFAULT_ADDRESS_MUTATION);
+
+  const saving = createState.loading || updateState.loading;
+
+  const openEditor = (address: Address | null): void => {
+    setSaveError(null);
+    setEditor({ open: true, address });
+  };
+
+  const closeEditor = (): void => {
+    setEditor((current) => ({ ...current, open: false }));
+  };
+
+  const handleSave = async (input: AddressInput): Promise<void> => {
+    setSaveError(null);
+    try {
+      if (editor.address) {
+        await updateAddress({ variables: { id: editor.address.id, input } });
+      } else {
+        await createAddress({ variables: { input } });
+      }
+      closeEditor();
+    } catch (err) {
+      console.error('Saving address failed:', err);
+      setSaveError(normalizeError(err, 'The address could not be saved'));
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    if (!pendingDelete) {
+      return;
+    }
+
+    setActionError('');
+    try {
+      await deleteAddress({
+        variables: { id: pendingDelete.id },
+        update: (cache) => {
+          // Dangling references are dropped from the cached list when it is next read
+          cache.evict({ id: cache.identify({ __typename: 'Address', id: pendingDelete.id }) });
+          cache.gc();
+        },
+      });
+    } catch (err) {
+      console.error('Deleting address failed:', err);
+      setActionError(normalizeError(err, 'The address could not be deleted').message);
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const handleSetDefault = async (address: Address, kind: AddressDefault): Promise<void> => {
+    setActionError('');
+    try {
+      await setDefaultAddress({ variables: { id: address.id, kind } });
+    } catch (err) {
+      console.error('Setting default address failed:', err);
+      setActionError(normalizeError(err, 'The default address could not be changed').message);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Addresses
+        </Typography>
+        <Button variant="contained" onClick={() => openEditor(null)}>
+          Add address
+        </Button>
+      </Box>
+
+      {(error || actionError) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {actionError || error?.message}
+        </Alert>
+      )}
+
+      {loading && addresses.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : addresses.length === 0 ? (
+        !error && (
+          <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+            You have no saved addresses yet.
+          </Typography>
+        )
+      ) : (
+        <Grid container spacing={2}>
+          {addresses.map((address) => (
+            <Grid item xs={12} sm={6} key={address.id}>
+              <Card variant="outlined" sx={{ height: '100%' }}>
+                <CardContent>
+                  <Typography variant="subtitle1">{address.fullName}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {formatAddress(address)}
+                  </Typography>
+                  {address.phone && (
+                    <Typography variant="body2" color="text.secondary">
+                      {address.phone}
+                    </Typography>
+                  )}
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                    {Object.values(AddressDefault)
+                      .filter((kind) => isDefaultAddress(address, kind))
+                      .map((kind) => (
+                        <Chip
+                          key={kind}
+                          size="small"
+                          color="primary"
+                          label={ADDRESS_DEFAULT_LABELS[kind]}
+                        />
+                      ))}
+                  </Box>
+                </CardContent>
+                <CardActions sx={{ flexWrap: 'wrap' }}>
+                  <Button size="small" onClick={() => openEditor(address)}>
+                    Edit
+                  </Button>
+                  <Button size="small" color="error" onClick={() => setPendingDelete(address)}>
+                    Delete
+                  </Button>
+                  {Object.values(AddressDefault)
+                    .filter((kind) => !isDefaultAddress(address, kind))
+                    .map((kind) => (
+                      <Button
+                        key={kind}
+                        size="small"
+                        onClick={() => handleSetDefault(address, kind)}
+                        disabled={setDefaultState.loading}
+                      >
+                        Set as {ADDRESS_DEFAULT_LABELS[kind].toLowerCase()}
+                      </Button>
+                    ))}
+                </CardActions>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
+      <AddressDialog
+        open={editor.open}
+        address={editor.address}
+        saving={saving}
+        error={saveError}
+        onSave={handleSave}
+        onClose={closeEditor}
+      />
+
+      <Dialog open={pendingDelete !== null} onClose={() => setPendingDelete(null)}>
+        <DialogTitle>Delete this address?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>{pendingDelete && formatAddress(pendingDelete)}</DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingDelete(null)} disabled={deleteState.loading}>
+            Cancel
+          </Button>
+          <Button color="error" onClick={handleDelete} disabled={deleteState.loading}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useMutation } from '@apollo/client';
+import { Box, TextField, Button, Typography, Alert } from '@mui/material';
+import { CHANGE_EMAIL_MUTATION } from '../../graphql/operations';
+import { selectCurrentUser, setUser } from '../../redux/slices/authSlice';
+import { RecentAuthGate } from './RecentAuthGate';
+import type { AppDispatch } from '../../redux/store';
+
+interface ChangeEmailFormProps {
+  reauthToken: string;
+}
+
+const ChangeEmailForm: React.FC<ChangeEmailFormProps> = ({ reauthToken }) => {
+  const user = useSelector(selectCurrentUser);
+  const dispatch = useDispatch<AppDispatch>();
+
+  const [newEmail, setNewEmail] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const [changeEmail, { loading, error }] = useMutation(CHANGE_EMAIL_MUTATION);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setValidationError('');
+
+    if (!newEmail) {
+      setValidationError('New email is required');
+      return;
+    }
+
+    if (newEmail === user?.email) {
+      setValidationError('This is already your email address');
+      return;
+    }
+
+    try {
+      await changeEmail({ variables: { newEmail, reauthToken } });
+      // The address only changes once the link sent to it is opened on /verify-email
+      if (user) {
+        dispatch(setUser({ ...user, pendingEmail: newEmail }));
+      }
+      setNewEmail('');
+    } catch (err) {
+      console.error('Change email failed:', err);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit}>
+      {user?.pendingEmail && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          We sent a verification link to <strong>{user.pendingEmail}</strong>. Your email will
+          change once you open it.
+        </Alert>
+      )}
+
+      {(validationError || error) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {validationError || error?.message}
+        </Alert>
+      )}
+
+      <TextField
+        fullWidth
+        label="Current Email"
+        value={user?.email ?? ''}
+        margin="normal"
+        disabled
+      />
+      <TextField
+        fullWidth
+        label="New Email"
+        type="email"
+        value={newEmail}
+        onChange={(e) => setNewEmail(e.target.value)}
+        margin="normal"
+        required
+      />
+      <Button type="submit" variant="contained" sx={{ mt: 2 }} disabled={loading}>
+        {loading ? 'Sending...' : 'Send Verification Link'}
+      </Button>
+    </Box>
+  );
+};
+
+export const ChangeEmail: React.FC = () => {
+  return (
+    <Box sx={{ maxWidth: 400 }}>
+      <Typography variant="h6" gutterBottom>
+        Change Email
+      </Typography>
+      <RecentAuthGate>
+        {(reauthToken) => <ChangeEmailForm reauthToken={reauthToken} />}
+      </RecentAuthGate>
+    </Box>
+  );
+};
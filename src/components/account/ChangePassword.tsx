@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useMutation } from '@apollo/client';
+import { Box, TextField, Button, Typography, Alert } from '@mui/material';
+import { CHANGE_PASSWORD_MUTATION } from '../../graphql/operations';
+import { selectCurrentUser } from '../../redux/slices/authSlice';
+import { evaluatePassword, getPasswordPolicyError } from '../../utilities/passwordPolicy';
+import { PasswordStrengthMeter } from '../auth/PasswordStrengthMeter';
+
+export const ChangePassword: React.FC = () => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [success, setSuccess] = useState(false);
+
+  const user = useSelector(selectCurrentUser);
+  const [changePassword, { loading, error }] = useMutation(CHANGE_PASSWORD_MUTATION);
+  const passwordEvaluation = evaluatePassword(newPassword, {
+    email: user?.email,
+    name: user?.name,
+  });
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setValidationError('');
+    setSuccess(false);
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setValidationError('All password fields are required');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setValidationError('Passwords do not match');
+      return;
+    }
+
+    const passwordError = getPasswordPolicyError(passwordEvaluation);
+    if (passwordError) {
+      setValidationError(passwordError);
+      return;
+    }
+
+    try {
+      await changePassword({ variables: { currentPassword, newPassword } });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setSuccess(true);
+    } catch (err) {
+      console.error('Change password failed:', err);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ maxWidth: 400 }}>
+      <Typography variant="h6" gutterBottom>
+        Change Password
+      </Typography>
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your password has been changed.
+        </Alert>
+      )}
+
+      {(validationError || error) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {validationError || error?.message}
+        </Alert>
+      )}
+
+      <TextField
+        fullWidth
+        label="Current Password"
+        type="password"
+        value={currentPassword}
+        onChange={(e) => setCurrentPassword(e.target.value)}
+        margin="normal"
+        required
+      />
+      <TextField
+        fullWidth
+        label="New Password"
+        type="password"
+        value={newPassword}
+        onChange={(e) => setNewPassword(e.target.value)}
+        margin="normal"
+        required
+      />
+      {newPassword && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
+      <TextField
+        fullWidth
+        label="Confirm New Password"
+        type="password"
+        value={confirmPassword}
+        onChange={(e) => setConfirmPassword(e.target.value)}
+        margin="normal"
+        required
+      />
+      <Button type="submit" variant="contained" sx={{ mt: 2 }} disabled={loading}>
+        {loading ? 'Changing...' : 'Change Password'}
+      </Button>
+    </Box>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+import { useMutation } from '@apollo/client';
+import { Box, TextField, Button, Typography, Alert } from '@mui/material';
+import { DELETE_ACCOUNT_MUTATION } from '../../graphql/operations';
+import { logoutUser } from '../../redux/thunks/authThunks';
+import { RecentAuthGate } from './RecentAuthGate';
+import type { LoginLocationState } from '../../utilities/redirect';
+import type { AppDispatch } from '../../redux/store';
+
+const CONFIRMATION_PHRASE = 'DELETE' as const;
+
+interface DeleteAccountFormProps {
+  reauthToken: string;
+}
+
+const DeleteAccountForm: React.FC<DeleteAccountFormProps> = ({ reauthToken }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+
+  const [confirmation, setConfirmation] = useState('');
+  const [deleteAccount, { loading, error }] = useMutation(DELETE_ACCOUNT_MUTATION);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    if (confirmation !== CONFIRMATION_PHRASE) {
+      return;
+    }
+
+    try {
+      await deleteAccount({ variables: { reauthToken } });
+      await dispatch(logoutUser());
+      const state: LoginLocationState = { message: 'Your account has been deleted.' };
+      navigate('/login', { state });
+    } catch (err) {
+      console.error('Delete account failed:', err);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        Type <strong>{CONFIRMATION_PHRASE}</strong> to confirm.
+      </Typography>
+      <TextField
+        fullWidth
+        label="Confirmation"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        margin="normal"
+        required
+      />
+      <Button
+        type="submit"
+        variant="contained"
+        color="error"
+        sx={{ mt: 2 }}
+        disabled={loading || confirmation !== CONFIRMATION_PHRASE}
+      >
+        {loading ? 'Deleting...' : 'Permanently Delete Account'}
+      </Button>
+    </Box>
+  );
+};
+
+export const DeleteAccount: React.FC = () => {
+  return (
+    <Box sx={{ maxWidth: 400 }}>
+      <Typography variant="h6" gutterBottom>
+        Delete Account
+      </Typography>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Deleting your account is permanent. Your profile, saved data and sign-in methods will be
+        removed and cannot be recovered.
+      </Alert>
+      <RecentAuthGate>
+        {(reauthToken) => <DeleteAccountForm reauthToken={reauthToken} />}
+      </RecentAuthGate>
+    </Box>
+  );
+};
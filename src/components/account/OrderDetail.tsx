@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { useLazyQuery, useMutation, useQuery } from '@apollo/client';
+import {
+  Alert,
+  Avatar,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  Grid,
+  Link as MuiLink,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Snackbar,
+  Typography,
+} from '@mui/material';
+import {
+  CREATE_ADDRESS_MUTATION,
+  MY_ADDRESSES_QUERY,
+  ORDER_INVOICE_QUERY,
+  ORDER_QUERY,
+} from '../../graphql/operations';
+import { appendCreatedAddress } from '../../apollo/addressCache';
+import { OrderStatusChip } from '../orders/OrderStatusChip';
+import { OrderTimeline } from '../orders/OrderTimeline';
+import { addItemsToCart } from '../../redux/thunks/cartThunks';
+import {
+  markOrderUpdateRead,
+  selectUnreadOrderUpdates,
+} from '../../redux/slices/orderUpdatesSlice';
+import { findMatchingAddress, formatAddress, toAddressInput } from '../../utilities/addresses';
+import type { Address } from '../../utilities/addresses';
+import { formatPrice } from '../../utilities/catalog';
+import { formatOrderDate, toCartItem } from '../../utilities/orders';
+import type { Order } from '../../utilities/orders';
+import type { AppDispatch } from '../../redux/store';
+
+export const OrderDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const dispatch = useDispatch<AppDispatch>();
+  const [message, setMessage] = useState('');
+  const unreadUpdates = useSelector(selectUnreadOrderUpdates);
+
+  // Partial data renders the summary already cached by the orders list while the rest loads
+  const { data, loading, error } = useQuery(ORDER_QUERY, {
+    variables: { id },
+    returnPartialData: true,
+    fetchPolicy: 'cache-and-network',
+  });
+  const order: Partial<Order> | undefined = data?.order ?? undefined;
+
+  // Live updates arrive through the Navbar subscription and the shared cache; one for the order
+  // on screen has been seen
+  const hasUnreadUpdate = unreadUpdates.some(({ orderId }) => orderId === id);
+  useEffect(() => {
+    if (hasUnreadUpdate) {
+      dispatch(markOrderUpdateRead(id));
+    }
+  }, [dispatch, hasUnreadUpdate, id]);
+
+  // Same cached list as the address book and checkout
+  const { data: addressData } = useQuery(MY_ADDRESSES_QUERY);
+  const savedAddresses: ReadonlyArray<Address> = addressData?.myAddresses ?? [];
+  const isAddressSaved = Boolean(
+    order?.shippingAddress && findMatchingAddress(savedAddresses, order.shippingAddress)
+  );
+  const [createAddress, { loading: savingAddress }] = useMutation(CREATE_ADDRESS_MUTATION, {
+    update: appendCreatedAddress,
+  });
+
+  const handleSaveAddress = async (): Promise<void> => {
+    if (!order?.shippingAddress) {
+      return;
+    }
+    try {
+      await createAddress({ variables: { input: toAddressInput(order.shippingAddress) } });
+      setMessage('Address saved to your address book');
+    } catch (err) {
+      console.error('Saving address failed:', err);
+      setMessage('The address could not be saved. Please try again.');
+    }
+  };
+
+  const [fetchInvoice, { loading: invoiceLoading }] = useLazyQuery(ORDER_INVOICE_QUERY, {
+    fetchPolicy: 'network-only',
+  });
+
+  const handleDownloadInvoice = async (): Promise<void> => {
+    try {
+      const { data: invoiceData, error: invoiceError } = await fetchInvoice({
+        variables: { orderId: id },
+      });
+      if (invoiceError || !invoiceData?.orderInvoice) {
+        throw invoiceError ?? new Error('Invoice unavailable');
+      }
+      window.location.assign(invoiceData.orderInvoice.url);
+    } catch (err) {
+      console.error('Invoice download failed:', err);
+      setMessage('The invoice could not be downloaded. Please try again.');
+    }
+  };
+
+  const handleBuyAgain = async (): Promise<void> => {
+    if (!order?.lines) {
+      return;
+    }
+    await dispatch(addItemsToCart(order.lines.map(toCartItem)));
+    setMessage('Items added to your cart');
+  };
+
+  if (!order?.number) {
+    if (loading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+    return (
+      <Alert severity={error ? 'error' : 'warning'}>
+        {error ? error.message : 'Order not found.'}{' '}
+        <MuiLink component={RouterLink} to=".." relative="path">
+          Back to orders
+        </MuiLink>
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <MuiLink component={RouterLink} to=".." relative="path" underline="hover">
+        ← All orders
+      </MuiLink>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2, mt: 1, mb: 2 }}>
+        <Typography variant="h6">Order #{order.number}</Typography>
+        {order.status && <OrderStatusChip status={order.status} />}
+        {order.placedAt && (
+          <Typography color="text.secondary">Placed {formatOrderDate(order.placedAt)}</Typography>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button variant="outlined" onClick={handleDownloadInvoice} disabled={invoiceLoading}>
+          {invoiceLoading ? 'Preparing...' : 'Download invoice'}
+        </Button>
+        <Button variant="contained" onClick={handleBuyAgain} disabled={!order.lines?.length}>
+          Buy again
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      <Grid container spacing={4}>
+        <Grid item xs={12} md={7}>
+          <List disablePadding>
+            {(order.lines ?? []).map((line) => (
+              <ListItem key={line.id} disableGutters>
+                <ListItemAvatar>
+                  <Avatar variant="rounded" src={line.thumbnailUrl ?? undefined} alt={line.name} />
+                </ListItemAvatar>
+                <ListItemText
+                  primary={
+                    <MuiLink component={RouterLink} to={`/products/${line.slug}`} color="inherit">
+                      {line.name}
+                    </MuiLink>
+                  }
+                  secondary={[line.variantLabel, `Qty ${line.quantity}`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                />
+                <Typography variant="body2">
+                  {formatPrice(line.unitPrice * line.quantity, line.currency)}
+                </Typography>
+              </ListItem>
+            ))}
+          </List>
+          <Divider sx={{ my: 2 }} />
+
+          {order.currency && order.subtotal !== undefined && order.deliveryCost !== undefined && (
+            <Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography>Subtotal</Typography>
+                <Typography>{formatPrice(order.subtotal, order.currency)}</Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography>Delivery ({order.deliveryMethod})</Typography>
+                <Typography>
+                  {order.deliveryCost === 0
+                    ? 'Free'
+                    : formatPrice(order.deliveryCost, order.currency)}
+                </Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                <Typography fontWeight="bold">Total</Typography>
+                <Typography fontWeight="bold">
+                  {formatPrice(order.total ?? 0, order.currency)}
+                </Typography>
+              </Box>
+            </Box>
+          )}
+
+          {order.shippingAddress && (
+            <Box sx={{ mt: 3 }}>
+              <Typography variant="subtitle2">Shipping address</Typography>
+              <Typography variant="body2">{order.shippingAddress.fullName}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {formatAddress(order.shippingAddress)}
+              </Typography>
+              {addressData &&
+                (isAddressSaved ? (
+                  <Chip size="small" label="In your address book" sx={{ mt: 1 }} />
+                ) : (
+                  <Button
+                    size="small"
+                    onClick={handleSaveAddress}
+                    disabled={savingAddress}
+                    sx={{ mt: 1, px: 0 }}
+                  >
+                    Save to address book
+                  </Button>
+                ))}
+            </Box>
+          )}
+        </Grid>
+
+        <Grid item xs={12} md={5}>
+          <Typography variant="subtitle2" gutterBottom>
+            Status
+          </Typography>
+          {order.status && (
+            <OrderTimeline status={order.status} history={order.statusHistory ?? []} />
+          )}
+          {order.trackingUrl && (
+            <Button
+              href={order.trackingUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              sx={{ mt: 2 }}
+            >
+              Track shipment
+            </Button>
+          )}
+        </Grid>
+      </Grid>
+
+      <Snackbar
+        open={Boolean(message)}
+        autoHideDuration={4000}
+        onClose={() => setMessage('')}
+        message={message}
+      />
+    </Box>
+  );
+};
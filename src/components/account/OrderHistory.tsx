@@ -0,0 +1,153 @@
+import React from 'react';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import { NetworkStatus, useQuery } from '@apollo/client';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Link as MuiLink,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { MY_ORDERS_QUERY } from '../../graphql/operations';
+import { OrderStatusChip } from '../orders/OrderStatusChip';
+import { formatPrice } from '../../utilities/catalog';
+import {
+  formatOrderDate,
+  parseOrderStatusFilter,
+  OrderStatus,
+  ORDERS_PAGE_SIZE,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_PARAM,
+} from '../../utilities/orders';
+import type { OrderSummary } from '../../utilities/orders';
+
+// Interfaces
+interface OrderEdge {
+  cursor: string;
+  node: OrderSummary;
+}
+
+export const OrderHistory: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const status = parseOrderStatusFilter(searchParams);
+
+  // Each status filter is its own cached list (see cache.ts); the network refresh picks up
+  // orders placed or updated since the list was cached
+  const { data, loading, error, fetchMore, networkStatus } = useQuery(MY_ORDERS_QUERY, {
+    variables: { first: ORDERS_PAGE_SIZE, status },
+    fetchPolicy: 'cache-and-network',
+    nextFetchPolicy: 'cache-first',
+    notifyOnNetworkStatusChange: true,
+  });
+
+  const connection = data?.myOrders;
+  const orders: ReadonlyArray<OrderSummary> =
+    connection?.edges.map((edge: OrderEdge) => edge.node) ?? [];
+  const hasNextPage: boolean = connection?.pageInfo.hasNextPage ?? false;
+  const loadingMore = networkStatus === NetworkStatus.fetchMore;
+
+  const handleStatusChange = (next: OrderStatus | null): void => {
+    const params = new URLSearchParams(searchParams);
+    if (next) {
+      params.set(ORDER_STATUS_PARAM, next);
+    } else {
+      params.delete(ORDER_STATUS_PARAM);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleLoadMore = (): void => {
+    fetchMore({ variables: { after: connection?.pageInfo.endCursor } }).catch((err: unknown) => {
+      console.error('Failed to load more orders:', err);
+    });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Orders
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Chip
+          label="All"
+          color={status === null ? 'primary' : 'default'}
+          onClick={() => handleStatusChange(null)}
+        />
+        {Object.values(OrderStatus).map((value) => (
+          <Chip
+            key={value}
+            label={ORDER_STATUS_LABELS[value]}
+            color={status === value ? 'primary' : 'default'}
+            onClick={() => handleStatusChange(value)}
+          />
+        ))}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      {loading && orders.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : orders.length === 0 ? (
+        !error && (
+          <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+            {status ? 'No orders with this status.' : "You haven't placed any orders yet."}
+          </Typography>
+        )
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Order</TableCell>
+                <TableCell>Placed</TableCell>
+                <TableCell>Items</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Total</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.id} hover>
+                  <TableCell>
+                    <MuiLink component={RouterLink} to={order.id}>
+                      #{order.number}
+                    </MuiLink>
+                  </TableCell>
+                  <TableCell>{formatOrderDate(order.placedAt)}</TableCell>
+                  <TableCell>{order.itemCount}</TableCell>
+                  <TableCell>
+                    <OrderStatusChip status={order.status} />
+                  </TableCell>
+                  <TableCell align="right">{formatPrice(order.total, order.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {hasNextPage && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <Button variant="outlined" onClick={handleLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
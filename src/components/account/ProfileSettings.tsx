@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useMutation } from '@apollo/client';
+import { Box, TextField, Button, Typography, Alert } from '@mui/material';
+import { UPDATE_PROFILE_MUTATION } from '../../graphql/operations';
+import { selectCurrentUser, setUser } from '../../redux/slices/authSlice';
+import type { AppDispatch } from '../../redux/store';
+
+export const ProfileSettings: React.FC = () => {
+  const user = useSelector(selectCurrentUser);
+  const dispatch = useDispatch<AppDispatch>();
+
+  const [name, setName] = useState(user?.name ?? '');
+  const [validationError, setValidationError] = useState('');
+  const [success, setSuccess] = useState(false);
+
+  const [updateProfile, { loading, error }] = useMutation(UPDATE_PROFILE_MUTATION);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setValidationError('');
+    setSuccess(false);
+
+    if (!name.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+
+    try {
+      const { data } = await updateProfile({ variables: { name: name.trim() } });
+      dispatch(setUser(data.updateProfile));
+      setSuccess(true);
+    } catch (err) {
+      console.error('Profile update failed:', err);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ maxWidth: 400 }}>
+      <Typography variant="h6" gutterBottom>
+        Profile
+      </Typography>
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your profile has been updated.
+        </Alert>
+      )}
+
+      {(validationError || error) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {validationError || error?.message}
+        </Alert>
+      )}
+
+      <TextField fullWidth label="Email" value={user?.email ?? ''} margin="normal" disabled />
+      <TextField
+        fullWidth
+        label="Name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        margin="normal"
+        required
+      />
+      <Button type="submit" variant="contained" sx={{ mt: 2 }} disabled={loading}>
+        {loading ? 'Saving...' : 'Save Changes'}
+      </Button>
+    </Box>
+  );
+};
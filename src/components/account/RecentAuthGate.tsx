@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useMutation } from '@apollo/client';
+import { Box, TextField, Button, Typography, Alert } from '@mui/material';
+import { REAUTHENTICATE_MUTATION } from '../../graphql/operations';
+import { selectValidReauthToken, setReauthentication } from '../../redux/slices/authSlice';
+import type { AppDispatch } from '../../redux/store';
+
+interface RecentAuthGateProps {
+  children: (reauthToken: string) => React.ReactNode;
+}
+
+// Asks for the password again before rendering a sensitive action
+export const RecentAuthGate: React.FC<RecentAuthGateProps> = ({ children }) => {
+  const reauthToken = useSelector(selectValidReauthToken);
+  const dispatch = useDispatch<AppDispatch>();
+
+  const [password, setPassword] = useState('');
+  const [reauthenticate, { loading, error }] = useMutation(REAUTHENTICATE_MUTATION);
+
+  if (reauthToken) {
+    return <>{children(reauthToken)}</>;
+  }
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    try {
+      const { data } = await reauthenticate({ variables: { password } });
+      setPassword('');
+      dispatch(setReauthentication(data.reauthenticate));
+    } catch (err) {
+      console.error('Re-authentication failed:', err);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ maxWidth: 400 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        For your security, please confirm your password to continue.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      <TextField
+        fullWidth
+        label="Current Password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        margin="normal"
+        required
+      />
+      <Button type="submit" variant="contained" sx={{ mt: 2 }} disabled={loading || !password}>
+        {loading ? 'Confirming...' : 'Confirm Password'}
+      </Button>
+    </Box>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useMutation } from '@apollo/client';
+import { Box, TextField, Button, Typography, Alert, Stack, Link as MuiLink } from '@mui/material';
+import {
+  ENROLL_TOTP_MUTATION,
+  CONFIRM_TOTP_ENROLLMENT_MUTATION,
+  REGENERATE_RECOVERY_CODES_MUTATION,
+  DISABLE_TOTP_MUTATION,
+} from '../../graphql/operations';
+import { selectCurrentUser, setUser } from '../../redux/slices/authSlice';
+import type { AppDispatch } from '../../redux/store';
+
+// Enums
+enum TwoFactorStep {
+  OVERVIEW = 'OVERVIEW',
+  ENROLLING = 'ENROLLING',
+  RECOVERY_CODES = 'RECOVERY_CODES',
+}
+
+// Interfaces
+interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+export const TwoFactorSettings: React.FC = () => {
+  const user = useSelector(selectCurrentUser);
+  const dispatch = useDispatch<AppDispatch>();
+
+  const [step, setStep] = useState<TwoFactorStep>(TwoFactorStep.OVERVIEW);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<ReadonlyArray<string>>([]);
+  const [code, setCode] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const [enrollTotp, enrollState] = useMutation(ENROLL_TOTP_MUTATION);
+  const [confirmEnrollment, confirmState] = useMutation(CONFIRM_TOTP_ENROLLMENT_MUTATION);
+  const [regenerateRecoveryCodes, regenerateState] = useMutation(
+    REGENERATE_RECOVERY_CODES_MUTATION
+  );
+  const [disableTotp, disableState] = useMutation(DISABLE_TOTP_MUTATION);
+
+  const mutationError =
+    enrollState.error || confirmState.error || regenerateState.error || disableState.error;
+  const loading =
+    enrollState.loading || confirmState.loading || regenerateState.loading || disableState.loading;
+
+  if (!user) {
+    return null;
+  }
+
+  const requireCode = (): string | null => {
+    setValidationError('');
+    const trimmedCode = code.replace(/\s/g, '');
+
+    if (!TOTP_CODE_PATTERN.test(trimmedCode)) {
+      setValidationError('Enter the 6-digit code from your authenticator app');
+      return null;
+    }
+
+    return trimmedCode;
+  };
+
+  const handleStartEnrollment = async (): Promise<void> => {
+    try {
+      const { data } = await enrollTotp();
+      setEnrollment(data.enrollTotp);
+      setCode('');
+      setStep(TwoFactorStep.ENROLLING);
+    } catch (error) {
+      console.error('Failed to start 2FA enrollment:', error);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    const verifiedCode = requireCode();
+    if (!verifiedCode) {
+      return;
+    }
+
+    try {
+      const { data } = await confirmEnrollment({ variables: { code: verifiedCode } });
+      setRecoveryCodes(data.confirmTotpEnrollment.recoveryCodes);
+      setEnrollment(null);
+      setCode('');
+      setStep(TwoFactorStep.RECOVERY_CODES);
+      dispatch(setUser({ ...user, mfaEnabled: true }));
+    } catch (error) {
+      console.error('Failed to confirm 2FA enrollment:', error);
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async (): Promise<void> => {
+    const verifiedCode = requireCode();
+    if (!verifiedCode) {
+      return;
+    }
+
+    try {
+      const { data } = await regenerateRecoveryCodes({ variables: { code: verifiedCode } });
+      setRecoveryCodes(data.regenerateRecoveryCodes.recoveryCodes);
+      setCode('');
+      setStep(TwoFactorStep.RECOVERY_CODES);
+    } catch (error) {
+      console.error('Failed to regenerate recovery codes:', error);
+    }
+  };
+
+  const handleDisable = async (): Promise<void> => {
+    const verifiedCode = requireCode();
+    if (!verifiedCode) {
+      return;
+    }
+
+    try {
+      await disableTotp({ variables: { code: verifiedCode } });
+      setCode('');
+      setStep(TwoFactorStep.OVERVIEW);
+      dispatch(setUser({ ...user, mfaEnabled: false }));
+    } catch (error) {
+      console.error('Failed to disable 2FA:', error);
+    }
+  };
+
+  const codeField = (
+    <TextField
+      fullWidth
+      label="Authentication code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      margin="normal"
+      inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code', maxLength: 6 }}
+    />
+  );
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Two-Factor Authentication
+      </Typography>
+
+      {(validationError || mutationError) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {validationError || mutationError?.message}
+        </Alert>
+      )}
+
+      {step === TwoFactorStep.RECOVERY_CODES && (
+        <>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Save these recovery codes somewhere safe. Each code can be used once to sign in if you
+            lose access to your authenticator app. They will not be shown again.
+          </Alert>
+          <Box component="ul" sx={{ fontFamily: 'monospace', columns: 2, pl: 3, mb: 2 }}>
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </Box>
+          <Button variant="contained" onClick={() => setStep(TwoFactorStep.OVERVIEW)}>
+            I have saved my codes
+          </Button>
+        </>
+      )}
+
+      {step === TwoFactorStep.ENROLLING && enrollment && (
+        <form onSubmit={handleConfirmEnrollment}>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows to
+            finish setup.
+          </Typography>
+          <Box sx={{ textAlign: 'center', mb: 2 }}>
+            <img src={enrollment.qrCodeDataUrl} alt="Two-factor authentication QR code" />
+          </Box>
+          <Typography variant="body2" color="text.secondary">
+            Can't scan it? Enter this secret manually:
+          </Typography>
+          <Typography sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mb: 1 }}>
+            {enrollment.secret}
+          </Typography>
+          <MuiLink href={enrollment.otpauthUrl} variant="body2">
+            Open in authenticator app
+          </MuiLink>
+          {codeField}
+          <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+            <Button type="submit" variant="contained" disabled={loading}>
+              {confirmState.loading ? 'Verifying...' : 'Confirm'}
+            </Button>
+            <Button onClick={() => setStep(TwoFactorStep.OVERVIEW)} disabled={loading}>
+              Cancel
+            </Button>
+          </Stack>
+        </form>
+      )}
+
+      {step === TwoFactorStep.OVERVIEW && !user.mfaEnabled && (
+        <>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Protect your account with a one-time code from an authenticator app in addition to your
+            password.
+          </Typography>
+          <Button variant="contained" onClick={handleStartEnrollment} disabled={loading}>
+            {enrollState.loading ? 'Starting...' : 'Enable Two-Factor Authentication'}
+          </Button>
+        </>
+      )}
+
+      {step === TwoFactorStep.OVERVIEW && user.mfaEnabled && (
+        <>
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Two-factor authentication is enabled.
+          </Alert>
+          <Typography variant="body2">
+            Enter a current code from your authenticator app to regenerate recovery codes or disable
+            two-factor authentication.
+          </Typography>
+          {codeField}
+          <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+            <Button variant="outlined" onClick={handleRegenerateRecoveryCodes} disabled={loading}>
+              Regenerate Recovery Codes
+            </Button>
+            <Button variant="outlined" color="error" onClick={handleDisable} disabled={loading}>
+              Disable Two-Factor Authentication
+            </Button>
+          </Stack>
+        </>
+      )}
+    </Box>
+  );
+};
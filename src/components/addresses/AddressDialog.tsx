@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from '@mui/material';
+import { AddressForm } from './AddressForm';
+import {
+  toAddressFieldErrors,
+  toAddressInput,
+  validateAddress,
+  EMPTY_ADDRESS,
+} from '../../utilities/addresses';
+import type { Address, AddressInput } from '../../utilities/addresses';
+import type { AuthError } from '../../redux/slices/authSlice';
+
+interface AddressDialogProps {
+  open: boolean;
+  // The address being edited, or null to create one
+  address: Address | null;
+  saving: boolean;
+  // Last failed save; its validation messages are shown on the matching fields
+  error: AuthError | null;
+  onSave: (input: AddressInput) => void;
+  onClose: () => void;
+}
+
+export const AddressDialog: React.FC<AddressDialogProps> = ({
+  open,
+  address,
+  saving,
+  error,
+  onSave,
+  onClose,
+}) => {
+  const [value, setValue] = useState<AddressInput>(EMPTY_ADDRESS);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Start from the edited address (or a blank one) every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValue(address ? toAddressInput(address) : EMPTY_ADDRESS);
+      setFieldErrors({});
+    }
+  }, [open, address]);
+
+  useEffect(() => {
+    if (error?.fieldErrors) {
+      setFieldErrors(toAddressFieldErrors(error.fieldErrors));
+    }
+  }, [error]);
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    const errors = validateAddress(value);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) {
+      onSave(toAddressInput(value));
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={saving ? undefined : onClose}
+      fullWidth
+      maxWidth="sm"
+      aria-labelledby="address-dialog-title"
+    >
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogTitle id="address-dialog-title">
+          {address ? 'Edit address' : 'Add address'}
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error.message}
+            </Alert>
+          )}
+          <Box sx={{ pt: 1 }}>
+            <AddressForm
+              value={value}
+              onChange={setValue}
+              fieldErrors={fieldErrors}
+              disabled={saving}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={saving}>
+            {saving ? 'Saving...' : 'Save address'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
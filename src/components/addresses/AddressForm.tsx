@@ -0,0 +1,91 @@
+import React from 'react';
+import { Grid, MenuItem, TextField } from '@mui/material';
+import { getCountryMetadata, COUNTRIES } from '../../config/countries';
+import type { AddressInput } from '../../utilities/addresses';
+
+interface AddressFormProps {
+  value: AddressInput;
+  onChange: (value: AddressInput) => void;
+  fieldErrors?: Record<string, string>;
+  disabled?: boolean;
+}
+
+// Controlled address fields; error keys match AddressInput field names. Labels and required
+// markers follow the selected country.
+export const AddressForm: React.FC<AddressFormProps> = ({
+  value,
+  onChange,
+  fieldErrors = {},
+  disabled,
+}) => {
+  const country = getCountryMetadata(value.country);
+
+  const field = (
+    name: keyof AddressInput,
+    label: string,
+    autoComplete: string,
+    required = true
+  ): React.ReactElement => (
+    <TextField
+      fullWidth
+      label={label}
+      value={value[name]}
+      onChange={(e) => onChange({ ...value, [name]: e.target.value })}
+      error={Boolean(fieldErrors[name])}
+      helperText={fieldErrors[name]}
+      inputProps={{ autoComplete }}
+      required={required}
+      disabled={disabled}
+    />
+  );
+
+  return (
+    <Grid container spacing={2}>
+      <Grid item xs={12}>
+        {field('fullName', 'Full name', 'name')}
+      </Grid>
+      <Grid item xs={12}>
+        {field('line1', 'Address line 1', 'address-line1')}
+      </Grid>
+      <Grid item xs={12}>
+        {field('line2', 'Address line 2', 'address-line2', false)}
+      </Grid>
+      <Grid item xs={12} sm={6}>
+        {field('city', 'City', 'address-level2')}
+      </Grid>
+      <Grid item xs={12} sm={6}>
+        {field(
+          'region',
+          country?.regionLabel ?? 'State / Region',
+          'address-level1',
+          country?.regionRequired ?? false
+        )}
+      </Grid>
+      <Grid item xs={12} sm={6}>
+        {field('postalCode', country?.postalCodeLabel ?? 'Postal code', 'postal-code')}
+      </Grid>
+      <Grid item xs={12} sm={6}>
+        <TextField
+          select
+          fullWidth
+          label="Country"
+          value={value.country}
+          onChange={(e) => onChange({ ...value, country: e.target.value })}
+          error={Boolean(fieldErrors.country)}
+          helperText={fieldErrors.country}
+          required
+          disabled={disabled}
+        >
+          {COUNTRIES.map((country) => (
+            <MenuItem key={country.code} value={country.code}>
+              {country.name}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Grid>
+      <Grid item xs={12}>
+        {field('phone', 'Phone', 'tel', false)}
+      </Grid>
+    </Grid>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { selectIsAuthorized } from '../../redux/slices/authSlice';
+import type { AccessRequirements } from '../../redux/slices/authSlice';
+import type { RootState } from '../../redux/store';
+
+interface CanProps extends AccessRequirements {
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+// Renders children only when the current user meets the role and permission requirements
+export const Can: React.FC<CanProps> = ({
+  requiredRoles,
+  requiredPermissions,
+  children,
+  fallback = null,
+}) => {
+  const isAuthorized = useSelector((state: RootState) =>
+    selectIsAuthorized(state, { requiredRoles, requiredPermissions })
+  );
+
+  return <>{isAuthorized ? children : fallback}</>;
+};
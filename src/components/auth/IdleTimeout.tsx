@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  LinearProgress,
+} from '@mui/material';
+import { logoutUser } from '../../redux/thunks/authThunks';
+import { ACTIVITY_EVENTS, getLastActivity, recordActivity } from '../../utilities/activityTracker';
+import type { AppDispatch } from '../../redux/store';
+
+// Constants
+export const DEFAULT_IDLE_MINUTES = 15 as const;
+export const DEFAULT_COUNTDOWN_SECONDS = 60 as const;
+const TICK_INTERVAL_MS = 1_000 as const;
+const IDLE_LOGOUT_MESSAGE = 'You were signed out after a period of inactivity.' as const;
+
+interface IdleTimeoutProps {
+  idleMinutes?: number;
+  countdownSeconds?: number;
+}
+
+// Signs the user out after a period without input, warning them first with a countdown
+export const IdleTimeout: React.FC<IdleTimeoutProps> = ({
+  idleMinutes = DEFAULT_IDLE_MINUTES,
+  countdownSeconds = DEFAULT_COUNTDOWN_SECONDS,
+}) => {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const loggingOut = useRef(false);
+
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+
+  const idleMs = idleMinutes * 60_000;
+  const countdownMs = countdownSeconds * 1_000;
+  const isWarning = secondsLeft !== null;
+
+  const handleLogout = useCallback(
+    async (message?: string): Promise<void> => {
+      if (loggingOut.current) {
+        return;
+      }
+      loggingOut.current = true;
+
+      await dispatch(logoutUser());
+      navigate('/login', message ? { state: { message } } : undefined);
+    },
+    [dispatch, navigate]
+  );
+
+  const handleStaySignedIn = (): void => {
+    recordActivity(true);
+    setSecondsLeft(null);
+  };
+
+  // Record local input; once the warning is shown only the dialog buttons count
+  useEffect(() => {
+    if (isWarning) {
+      return;
+    }
+
+    const handleActivity = (): void => recordActivity();
+
+    recordActivity(true);
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    return (): void => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [isWarning]);
+
+  // Idle time is measured against the shared timestamp, so activity in other tabs counts
+  useEffect(() => {
+    const tick = (): void => {
+      const idleFor = Date.now() - getLastActivity();
+
+      if (idleFor >= idleMs + countdownMs) {
+        void handleLogout(IDLE_LOGOUT_MESSAGE);
+      } else if (idleFor >= idleMs) {
+        setSecondsLeft(Math.ceil((idleMs + countdownMs - idleFor) / 1_000));
+      } else {
+        setSecondsLeft(null);
+      }
+    };
+
+    const interval = setInterval(tick, TICK_INTERVAL_MS);
+    return (): void => clearInterval(interval);
+  }, [idleMs, countdownMs, handleLogout]);
+
+  return (
+    <Dialog open={isWarning} aria-labelledby="idle-timeout-title">
+      <DialogTitle id="idle-timeout-title">Are you still there?</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          For your security you will be signed out in {secondsLeft} second
+          {secondsLeft === 1 ? '' : 's'}.
+        </DialogContentText>
+        <LinearProgress
+          variant="determinate"
+          value={((secondsLeft ?? 0) / countdownSeconds) * 100}
+          sx={{ mt: 2 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => void handleLogout()}>Log out</Button>
+        <Button variant="contained" onClick={handleStaySignedIn} autoFocus>
+          Stay signed in
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,34 +1,81 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate, Link, useLocation } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { useMutation } from '@apollo/client';
-import { Box, TextField, Button, Typography, Alert, IconButton, InputAdornment, Link as MuiLink } from '@mui/material';
+import {
+  Box,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  IconButton,
+  InputAdornment,
+  Link as MuiLink,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
 import { Visibility, VisibilityOff } from '@mui/icons-material';
 import { loginUser } from '../../redux/thunks/authThunks';
-import { selectAuthError, selectAuthStatus, AuthStatus } from '../../redux/slices/authSlice';
+import {
+  selectAuthError,
+  selectAuthStatus,
+  AuthErrorType,
+  AuthStatus,
+} from '../../redux/slices/authSlice';
+import type { AuthError } from '../../redux/slices/authSlice';
 import { RESEND_VERIFICATION_EMAIL_MUTATION } from '../../graphql/operations';
+import { formatRetryAfter } from '../../apollo/errorNormalization';
+import { forgetRedirectPath, getSafeRedirectPath, rememberRedirectPath } from '../../utilities/redirect';
+import type { LoginLocationState } from '../../utilities/redirect';
+import { DEFAULT_TOKEN_STORAGE_TYPE, TokenStorageType } from '../../utilities/tokenStorage';
 import type { AppDispatch } from '../../redux/store';
+import { SocialSignInButtons } from './SocialSignInButtons';
 
 export const Login: React.FC = () => {
   const location = useLocation();
-  const successMessage = (location.state as { message?: string })?.message;
+  const locationState = location.state as LoginLocationState | null;
+  const successMessage = locationState?.message;
+  const redirectPath = locationState?.from;
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  // Remember me keeps the access token in localStorage; "this tab" keeps it in sessionStorage
+  const [tokenStorageType, setTokenStorageType] = useState<TokenStorageType>(
+    DEFAULT_TOKEN_STORAGE_TYPE
+  );
   const [validationError, setValidationError] = useState('');
   const [isEmailNotVerified, setIsEmailNotVerified] = useState(false);
   const [resendSuccess, setResendSuccess] = useState(false);
+  // Seconds until a rate-limited user may try again; login stays disabled until then
+  const [retryAfterSeconds, setRetryAfterSeconds] = useState(0);
 
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
   const authError = useSelector(selectAuthError);
   const authStatus = useSelector(selectAuthStatus);
+  const fieldErrors = authError?.fieldErrors;
 
   const [resendVerificationEmail, { loading: resendLoading }] = useMutation(
     RESEND_VERIFICATION_EMAIL_MUTATION
   );
 
+  useEffect(() => {
+    setRetryAfterSeconds(
+      authError?.type === AuthErrorType.RATE_LIMITED ? (authError.retryAfterSeconds ?? 0) : 0
+    );
+  }, [authError]);
+
+  useEffect(() => {
+    if (retryAfterSeconds <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setRetryAfterSeconds((seconds) => seconds - 1), 1000);
+    return (): void => clearTimeout(timer);
+  }, [retryAfterSeconds]);
+
+  const rateLimited = retryAfterSeconds > 0;
+
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
     setValidationError('');
@@ -41,14 +88,25 @@ export const Login: React.FC = () => {
     }
 
     try {
-      await dispatch(loginUser({ email, password })).unwrap();
-      navigate('/');
-    } catch (error: any) {
+      const { mfaRequired } = await dispatch(
+        loginUser({ email, password, tokenStorageType })
+      ).unwrap();
+
+      if (mfaRequired) {
+        const state: LoginLocationState = { from: redirectPath };
+        navigate('/login/2fa', { state });
+        return;
+      }
+
+      forgetRedirectPath();
+      navigate(getSafeRedirectPath(redirectPath), { replace: true });
+    } catch (error: unknown) {
       console.error('Login failed:', error);
-      
-      // Check if error is due to unverified email
-      if (error?.message?.includes('verify your email')) {
+
+      if ((error as AuthError | undefined)?.type === AuthErrorType.EMAIL_NOT_VERIFIED) {
         setIsEmailNotVerified(true);
+        // Keep the target so VerifyEmail can hand it back after the detour
+        rememberRedirectPath(redirectPath);
       }
     }
   };
@@ -104,7 +162,19 @@ export const Login: React.FC = () => {
 
       {(validationError || (authError && !isEmailNotVerified)) && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {validationError || authError?.message}
+          {validationError ||
+            (rateLimited
+              ? `Too many login attempts. Try again in ${formatRetryAfter(retryAfterSeconds)}.`
+              : authError?.message)}
+          {!validationError && authError?.type === AuthErrorType.ACCOUNT_LOCKED && (
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              To unlock it,{' '}
+              <MuiLink component={Link} to="/forgot-password">
+                reset your password
+              </MuiLink>
+              .
+            </Typography>
+          )}
         </Alert>
       )}
 
@@ -117,6 +187,8 @@ export const Login: React.FC = () => {
           onChange={(e) => setEmail(e.target.value)}
           margin="normal"
           required
+          error={Boolean(fieldErrors?.email)}
+          helperText={fieldErrors?.email}
         />
         <TextField
           fullWidth
@@ -126,6 +198,8 @@ export const Login: React.FC = () => {
           onChange={(e) => setPassword(e.target.value)}
           margin="normal"
           required
+          error={Boolean(fieldErrors?.password)}
+          helperText={fieldErrors?.password}
           InputProps={{
             endAdornment: (
               <InputAdornment position="end">
@@ -140,17 +214,51 @@ export const Login: React.FC = () => {
             ),
           }}
         />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={tokenStorageType === TokenStorageType.LOCAL}
+              onChange={(e) =>
+                setTokenStorageType(
+                  e.target.checked ? TokenStorageType.LOCAL : DEFAULT_TOKEN_STORAGE_TYPE
+                )
+              }
+            />
+          }
+          label="Remember me"
+        />
+        {tokenStorageType !== TokenStorageType.LOCAL && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={tokenStorageType === TokenStorageType.SESSION}
+                onChange={(e) =>
+                  setTokenStorageType(
+                    e.target.checked ? TokenStorageType.SESSION : DEFAULT_TOKEN_STORAGE_TYPE
+                  )
+                }
+              />
+            }
+            label="Keep me signed in on this tab"
+          />
+        )}
         <Button
           fullWidth
           type="submit"
           variant="contained"
           sx={{ mt: 2 }}
-          disabled={authStatus === AuthStatus.LOADING}
+          disabled={authStatus === AuthStatus.LOADING || rateLimited}
         >
-          {authStatus === AuthStatus.LOADING ? 'Logging in...' : 'Login'}
+          {authStatus === AuthStatus.LOADING
+            ? 'Logging in...'
+            : rateLimited
+              ? `Try again in ${retryAfterSeconds}s`
+              : 'Login'}
         </Button>
       </form>
 
+      <SocialSignInButtons redirectPath={redirectPath} tokenStorageType={tokenStorageType} />
+
       <Box sx={{ mt: 2, textAlign: 'center' }}>
         <MuiLink component={Link} to="/forgot-password" variant="body2">
           Forgot Password?
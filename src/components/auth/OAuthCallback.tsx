@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Box,
+  Container,
+  Paper,
+  Typography,
+  CircularProgress,
+  Alert,
+  Button,
+  TextField,
+  Stack,
+} from '@mui/material';
+import { loginWithOAuth, confirmOAuthLink } from '../../redux/thunks/authThunks';
+import type { OAuthLinkRequest } from '../../redux/thunks/authThunks';
+import { selectAuthError, selectAuthStatus, AuthStatus } from '../../redux/slices/authSlice';
+import type { AuthError } from '../../redux/slices/authSlice';
+import { getOAuthProviderConfig } from '../../config/oauthProviders';
+import { consumePendingOAuthAuthorization } from '../../utilities/oauth';
+import { getSafeRedirectPath } from '../../utilities/redirect';
+import type { LoginLocationState } from '../../utilities/redirect';
+import type { AppDispatch } from '../../redux/store';
+
+export const OAuthCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const dispatch = useDispatch<AppDispatch>();
+  const authError = useSelector(selectAuthError);
+  const authStatus = useSelector(selectAuthStatus);
+
+  const [errorMessage, setErrorMessage] = useState('');
+  const [linkRequest, setLinkRequest] = useState<OAuthLinkRequest | null>(null);
+  const [providerLabel, setProviderLabel] = useState('');
+  const [redirectPath, setRedirectPath] = useState<string | undefined>();
+  const [password, setPassword] = useState('');
+  // The authorization code is single use; StrictMode must not exchange it twice
+  const exchangeStarted = useRef(false);
+
+  useEffect(() => {
+    if (exchangeStarted.current) {
+      return;
+    }
+    exchangeStarted.current = true;
+
+    const exchange = async (): Promise<void> => {
+      const providerError = searchParams.get('error');
+      const code = searchParams.get('code');
+      const pending = consumePendingOAuthAuthorization(searchParams.get('state'));
+
+      if (providerError) {
+        setErrorMessage(
+          searchParams.get('error_description') || 'Sign-in was cancelled or denied.'
+        );
+        return;
+      }
+
+      // A missing or mismatched state means the response did not come from our request
+      if (!pending || !code) {
+        setErrorMessage('This sign-in link is invalid or has expired. Please try again.');
+        return;
+      }
+
+      setProviderLabel(getOAuthProviderConfig(pending.provider)?.label ?? pending.provider);
+      setRedirectPath(pending.redirectPath);
+
+      try {
+        const result = await dispatch(
+          loginWithOAuth({
+            provider: pending.provider,
+            code,
+            codeVerifier: pending.codeVerifier,
+            redirectUri: pending.redirectUri,
+            tokenStorageType: pending.tokenStorageType,
+          })
+        ).unwrap();
+
+        if (result.linkRequest) {
+          setLinkRequest(result.linkRequest);
+          return;
+        }
+
+        if (result.mfaRequired) {
+          const state: LoginLocationState = { from: pending.redirectPath };
+          navigate('/login/2fa', { replace: true, state });
+          return;
+        }
+
+        navigate(getSafeRedirectPath(pending.redirectPath), { replace: true });
+      } catch (error) {
+        console.error('OAuth sign-in failed:', error);
+        setErrorMessage(
+          (error as AuthError | undefined)?.message || 'Sign-in failed. Please try again.'
+        );
+      }
+    };
+
+    exchange();
+  }, [searchParams, dispatch, navigate]);
+
+  const handleConfirmLink = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    if (!linkRequest || !password) {
+      return;
+    }
+
+    try {
+      await dispatch(
+        confirmOAuthLink({
+          linkToken: linkRequest.linkToken,
+          password,
+          tokenStorageType: linkRequest.tokenStorageType,
+        })
+      ).unwrap();
+      navigate(getSafeRedirectPath(redirectPath), { replace: true });
+    } catch (error) {
+      console.error('Account linking failed:', error);
+    }
+  };
+
+  const handleGoToLogin = (): void => {
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <Container maxWidth="sm">
+      <Box sx={{ marginTop: 8 }}>
+        <Paper elevation={3} sx={{ padding: 4, width: '100%' }}>
+          {errorMessage ? (
+            <Box sx={{ textAlign: 'center' }}>
+              <Typography variant="h5" gutterBottom>
+                Sign-in Failed
+              </Typography>
+              <Alert severity="error" sx={{ mt: 2, mb: 2 }}>
+                {errorMessage}
+              </Alert>
+              <Button variant="contained" onClick={handleGoToLogin} fullWidth>
+                Back to Login
+              </Button>
+            </Box>
+          ) : linkRequest ? (
+            <form onSubmit={handleConfirmLink}>
+              <Typography variant="h5" gutterBottom>
+                Link Your Account
+              </Typography>
+              <Typography variant="body2" sx={{ mb: 2 }}>
+                An account for <strong>{linkRequest.email}</strong> already exists. Enter its
+                password to confirm you own it and link your {providerLabel} sign-in. Afterwards you
+                can sign in with either method.
+              </Typography>
+
+              {authError && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {authError.message}
+                </Alert>
+              )}
+
+              <TextField
+                fullWidth
+                autoFocus
+                label="Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                margin="normal"
+                required
+              />
+              <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+                <Button
+                  type="submit"
+                  variant="contained"
+                  disabled={authStatus === AuthStatus.LOADING}
+                >
+                  {authStatus === AuthStatus.LOADING ? 'Linking...' : 'Link Accounts'}
+                </Button>
+                <Button onClick={handleGoToLogin}>Cancel</Button>
+              </Stack>
+            </form>
+          ) : (
+            <Box sx={{ textAlign: 'center' }}>
+              <CircularProgress size={60} sx={{ mb: 3 }} />
+              <Typography variant="h5" gutterBottom>
+                Signing you in...
+              </Typography>
+            </Box>
+          )}
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Box,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import RadioButtonUncheckedIcon from '@mui/icons-material/RadioButtonUnchecked';
+import { PasswordStrength } from '../../utilities/passwordPolicy';
+import type { PasswordEvaluation } from '../../utilities/passwordPolicy';
+
+const STRENGTH_DISPLAY: Record<
+  PasswordStrength,
+  { label: string; color: 'error' | 'warning' | 'info' | 'success' }
+> = {
+  [PasswordStrength.WEAK]: { label: 'Weak', color: 'error' },
+  [PasswordStrength.FAIR]: { label: 'Fair', color: 'warning' },
+  [PasswordStrength.GOOD]: { label: 'Good', color: 'info' },
+  [PasswordStrength.STRONG]: { label: 'Strong', color: 'success' },
+};
+
+interface PasswordStrengthMeterProps {
+  evaluation: PasswordEvaluation;
+}
+
+// Live feedback for password fields: a strength bar plus the policy checklist
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ evaluation }) => {
+  const { label, color } = STRENGTH_DISPLAY[evaluation.strength];
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <LinearProgress
+          variant="determinate"
+          value={evaluation.score}
+          color={color}
+          sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+          aria-label="Password strength"
+        />
+        <Typography variant="caption" color={`${color}.main`} sx={{ minWidth: 48 }}>
+          {label}
+        </Typography>
+      </Box>
+      <List dense disablePadding>
+        {evaluation.rules.map(({ rule, label: ruleLabel, passed }) => (
+          <ListItem key={rule} disableGutters sx={{ py: 0 }}>
+            <ListItemIcon sx={{ minWidth: 28 }}>
+              {passed ? (
+                <CheckCircleIcon fontSize="small" color="success" />
+              ) : (
+                <RadioButtonUncheckedIcon fontSize="small" color="disabled" />
+              )}
+            </ListItemIcon>
+            <ListItemText
+              primary={ruleLabel}
+              primaryTypographyProps={{
+                variant: 'caption',
+                color: passed ? 'text.primary' : 'text.secondary',
+              }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
@@ -1,16 +1,36 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useSelector } from 'react-redux';
-import { selectIsAuthenticated, selectAuthStatus, AuthStatus } from '../../redux/slices/authSlice';
+import {
+  selectIsAuthenticated,
+  selectAuthStatus,
+  selectIsAuthorized,
+  AuthStatus,
+} from '../../redux/slices/authSlice';
+import type { AccessRequirements } from '../../redux/slices/authSlice';
+import type { RootState } from '../../redux/store';
 import { Box, CircularProgress } from '@mui/material';
+import { IdleTimeout } from './IdleTimeout';
+import { Forbidden } from '../../pages/Forbidden';
+import { runtimeConfig } from '../../config/runtimeConfig';
+import { locationToPath } from '../../utilities/redirect';
+import type { LoginLocationState } from '../../utilities/redirect';
 
-interface ProtectedRouteProps {
+interface ProtectedRouteProps extends AccessRequirements {
   children: React.ReactNode;
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  requiredRoles,
+  requiredPermissions,
+}) => {
+  const location = useLocation();
   const isAuthenticated = useSelector(selectIsAuthenticated);
   const authStatus = useSelector(selectAuthStatus);
+  const isAuthorized = useSelector((state: RootState) =>
+    selectIsAuthorized(state, { requiredRoles, requiredPermissions })
+  );
 
   // Show loading spinner while checking authentication
   if (authStatus === AuthStatus.IDLE || authStatus === AuthStatus.LOADING) {
@@ -29,8 +49,23 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Carry the requested page through login so the user lands back on it
+    const state: LoginLocationState = { from: locationToPath(location) };
+    return <Navigate to="/login" replace state={state} />;
   }
 
-  return <>{children}</>;
+  if (!isAuthorized) {
+    return <Forbidden />;
+  }
+
+  // Idle timeout applies to protected pages only; public routes never auto-logout
+  return (
+    <>
+      <IdleTimeout
+        idleMinutes={runtimeConfig.idleMinutes ?? undefined}
+        countdownSeconds={runtimeConfig.idleCountdownSeconds ?? undefined}
+      />
+      {children}
+    </>
+  );
 };
@@ -5,7 +5,10 @@ import { Box, TextField, Button, Typography, Alert, IconButton, InputAdornment }
 import { Visibility, VisibilityOff } from '@mui/icons-material';
 import { registerUser } from '../../redux/thunks/authThunks';
 import { selectAuthError, selectAuthStatus, AuthStatus } from '../../redux/slices/authSlice';
+import { evaluatePassword, getPasswordPolicyError } from '../../utilities/passwordPolicy';
 import type { AppDispatch } from '../../redux/store';
+import { SocialSignInButtons } from './SocialSignInButtons';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
 
 export const Register: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -18,6 +21,8 @@ export const Register: React.FC = () => {
   const navigate = useNavigate();
   const authError = useSelector(selectAuthError);
   const authStatus = useSelector(selectAuthStatus);
+  const fieldErrors = authError?.fieldErrors;
+  const passwordEvaluation = evaluatePassword(password, { email, name });
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
@@ -28,8 +33,9 @@ export const Register: React.FC = () => {
       return;
     }
 
-    if (password.length < 6) {
-      setValidationError('Password must be at least 6 characters');
+    const passwordError = getPasswordPolicyError(passwordEvaluation);
+    if (passwordError) {
+      setValidationError(passwordError);
       return;
     }
 
@@ -72,6 +78,8 @@ export const Register: React.FC = () => {
           onChange={(e) => setName(e.target.value)}
           margin="normal"
           required
+          error={Boolean(fieldErrors?.name)}
+          helperText={fieldErrors?.name}
         />
         <TextField
           fullWidth
@@ -81,6 +89,8 @@ export const Register: React.FC = () => {
           onChange={(e) => setEmail(e.target.value)}
           margin="normal"
           required
+          error={Boolean(fieldErrors?.email)}
+          helperText={fieldErrors?.email}
         />
         <TextField
           fullWidth
@@ -90,6 +100,8 @@ export const Register: React.FC = () => {
           onChange={(e) => setPassword(e.target.value)}
           margin="normal"
           required
+          error={Boolean(fieldErrors?.password)}
+          helperText={fieldErrors?.password}
           InputProps={{
             endAdornment: (
               <InputAdornment position="end">
@@ -104,6 +116,7 @@ export const Register: React.FC = () => {
             ),
           }}
         />
+        {password && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
         <Button
           fullWidth
           type="submit"
@@ -114,6 +127,8 @@ export const Register: React.FC = () => {
           {authStatus === AuthStatus.LOADING ? 'Registering...' : 'Register'}
         </Button>
       </form>
+
+      <SocialSignInButtons />
     </Box>
   );
 };
@@ -4,6 +4,8 @@ import { useMutation } from '@apollo/client';
 import { Box, TextField, Button, Typography, Alert, IconButton, InputAdornment } from '@mui/material';
 import { Visibility, VisibilityOff } from '@mui/icons-material';
 import { RESET_PASSWORD_MUTATION } from '../../graphql/operations';
+import { evaluatePassword, getPasswordPolicyError } from '../../utilities/passwordPolicy';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
 
 export const ResetPassword: React.FC = () => {
   const [searchParams] = useSearchParams();
@@ -16,6 +18,7 @@ export const ResetPassword: React.FC = () => {
 
   const navigate = useNavigate();
   const [resetPassword, { loading, error }] = useMutation(RESET_PASSWORD_MUTATION);
+  const passwordEvaluation = evaluatePassword(newPassword);
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
@@ -31,8 +34,9 @@ export const ResetPassword: React.FC = () => {
       return;
     }
 
-    if (newPassword.length < 8) {
-      setValidationError('Password must be at least 8 characters long');
+    const passwordError = getPasswordPolicyError(passwordEvaluation);
+    if (passwordError) {
+      setValidationError(passwordError);
       return;
     }
 
@@ -92,6 +96,7 @@ export const ResetPassword: React.FC = () => {
             ),
           }}
         />
+        {newPassword && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
         <TextField
           fullWidth
           label="Confirm Password"
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Box, Button, Divider, Alert } from '@mui/material';
+import GoogleIcon from '@mui/icons-material/Google';
+import GitHubIcon from '@mui/icons-material/GitHub';
+import LoginIcon from '@mui/icons-material/Login';
+import { getEnabledOAuthProviders, OAuthProvider } from '../../config/oauthProviders';
+import { startOAuthSignIn } from '../../utilities/oauth';
+import type { TokenStorageType } from '../../utilities/tokenStorage';
+
+const PROVIDER_ICONS: Record<OAuthProvider, React.ReactNode> = {
+  [OAuthProvider.GOOGLE]: <GoogleIcon />,
+  [OAuthProvider.GITHUB]: <GitHubIcon />,
+  [OAuthProvider.MOCK_OIDC]: <LoginIcon />,
+};
+
+interface SocialSignInButtonsProps {
+  redirectPath?: string;
+  tokenStorageType?: TokenStorageType;
+}
+
+export const SocialSignInButtons: React.FC<SocialSignInButtonsProps> = ({
+  redirectPath,
+  tokenStorageType,
+}) => {
+  const [pendingProvider, setPendingProvider] = useState<OAuthProvider | null>(null);
+  const [error, setError] = useState('');
+  const providers = getEnabledOAuthProviders();
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  const handleClick = async (provider: OAuthProvider): Promise<void> => {
+    setError('');
+    setPendingProvider(provider);
+
+    try {
+      await startOAuthSignIn(provider, { redirectPath, tokenStorageType });
+    } catch (err) {
+      console.error('Failed to start social sign-in:', err);
+      setError(err instanceof Error ? err.message : 'Could not start sign-in');
+      setPendingProvider(null);
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Divider sx={{ mb: 2 }}>or</Divider>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {providers.map(({ provider, label }) => (
+          <Button
+            key={provider}
+            fullWidth
+            variant="outlined"
+            startIcon={PROVIDER_ICONS[provider]}
+            onClick={() => handleClick(provider)}
+            disabled={pendingProvider !== null}
+          >
+            Continue with {label}
+          </Button>
+        ))}
+      </Box>
+    </Box>
+  );
+};
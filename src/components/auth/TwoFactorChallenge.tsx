@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { Box, TextField, Button, Typography, Alert, Link as MuiLink } from '@mui/material';
+import { verifyMfaLogin } from '../../redux/thunks/authThunks';
+import {
+  selectAuthError,
+  selectAuthStatus,
+  selectMfaChallenge,
+  AuthStatus,
+  MfaMethod,
+} from '../../redux/slices/authSlice';
+import { forgetRedirectPath, getSafeRedirectPath } from '../../utilities/redirect';
+import type { LoginLocationState } from '../../utilities/redirect';
+import type { AppDispatch } from '../../redux/store';
+
+export const TwoFactorChallenge: React.FC = () => {
+  const location = useLocation();
+  const redirectPath = (location.state as LoginLocationState | null)?.from;
+
+  const [code, setCode] = useState('');
+  const [method, setMethod] = useState<MfaMethod>(MfaMethod.TOTP);
+  const [validationError, setValidationError] = useState('');
+
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const challenge = useSelector(selectMfaChallenge);
+  const authError = useSelector(selectAuthError);
+  const authStatus = useSelector(selectAuthStatus);
+
+  const isTotp = method === MfaMethod.TOTP;
+
+  // Reached without a pending challenge (e.g. page reload): start the login again
+  if (!challenge && authStatus !== AuthStatus.AUTHENTICATED) {
+    const state: LoginLocationState = { from: redirectPath };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setValidationError('');
+
+    const trimmedCode = code.replace(/\s/g, '');
+
+    if (isTotp && !/^\d{6}$/.test(trimmedCode)) {
+      setValidationError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    if (!trimmedCode) {
+      setValidationError('Recovery code is required');
+      return;
+    }
+
+    try {
+      await dispatch(verifyMfaLogin({ code: trimmedCode, method })).unwrap();
+      forgetRedirectPath();
+      navigate(getSafeRedirectPath(redirectPath), { replace: true });
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+    }
+  };
+
+  const handleToggleMethod = (): void => {
+    setMethod(isTotp ? MfaMethod.RECOVERY_CODE : MfaMethod.TOTP);
+    setCode('');
+    setValidationError('');
+  };
+
+  return (
+    <Box sx={{ maxWidth: 400, mx: 'auto', mt: 4, p: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        Two-Factor Authentication
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {isTotp
+          ? 'Enter the 6-digit code from your authenticator app.'
+          : 'Enter one of the recovery codes you saved when you enabled two-factor authentication.'}
+      </Typography>
+
+      {(validationError || authError) && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {validationError || authError?.message}
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <TextField
+          fullWidth
+          autoFocus
+          label={isTotp ? 'Authentication code' : 'Recovery code'}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          margin="normal"
+          required
+          inputProps={
+            isTotp
+              ? { inputMode: 'numeric', autoComplete: 'one-time-code', maxLength: 6 }
+              : { autoComplete: 'off' }
+          }
+        />
+        <Button
+          fullWidth
+          type="submit"
+          variant="contained"
+          sx={{ mt: 2 }}
+          disabled={authStatus === AuthStatus.LOADING}
+        >
+          Verify
+        </Button>
+      </form>
+
+      <Box sx={{ mt: 2, textAlign: 'center' }}>
+        <MuiLink component="button" type="button" variant="body2" onClick={handleToggleMethod}>
+          {isTotp ? 'Use a recovery code instead' : 'Use your authenticator app instead'}
+        </MuiLink>
+      </Box>
+    </Box>
+  );
+};
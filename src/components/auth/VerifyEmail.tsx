@@ -1,5 +1,6 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
 import { useMutation } from '@apollo/client';
 import {
   Box,
@@ -13,16 +14,26 @@ import {
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
 import { VERIFY_EMAIL_MUTATION } from '../../graphql/operations';
+import { selectIsAuthenticated } from '../../redux/slices/authSlice';
+import { refreshCurrentUser } from '../../redux/thunks/authThunks';
+import type { AppDispatch } from '../../redux/store';
+import { getRememberedRedirectPath } from '../../utilities/redirect';
+import type { LoginLocationState } from '../../utilities/redirect';
 
 const VerifyEmail: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const dispatch = useDispatch<AppDispatch>();
+  const isAuthenticated = useSelector(selectIsAuthenticated);
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  isAuthenticatedRef.current = isAuthenticated;
   const token = searchParams.get('token');
 
   const [verificationStatus, setVerificationStatus] = useState<
     'loading' | 'success' | 'error'
   >('loading');
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [loginState, setLoginState] = useState<LoginLocationState>({});
 
   const [verifyEmail] = useMutation(VERIFY_EMAIL_MUTATION);
 
@@ -37,24 +48,40 @@ const VerifyEmail: React.FC = () => {
       try {
         await verifyEmail({ variables: { token } });
         setVerificationStatus('success');
-        
-        // Redirect to login after 3 seconds
+
+        // Return to the page the user originally requested once they log in
+        const state: LoginLocationState = { from: getRememberedRedirectPath() };
+        setLoginState(state);
+
+        // Redirect after 3 seconds. A signed-in user confirming a changed address stays
+        // signed in (read through a ref: session restore may finish after this effect starts)
         setTimeout(() => {
-          navigate('/login');
+          if (isAuthenticatedRef.current) {
+            dispatch(refreshCurrentUser());
+            navigate('/account/email');
+          } else {
+            navigate('/login', { state });
+          }
         }, 3000);
-      } catch (error: any) {
+      } catch (error: unknown) {
         setVerificationStatus('error');
         setErrorMessage(
-          error.message || 'Verification failed. The link may be invalid or expired.'
+          (error instanceof Error && error.message) ||
+            'Verification failed. The link may be invalid or expired.'
         );
       }
     };
 
     verify();
-  }, [token, verifyEmail, navigate]);
+  }, [token, verifyEmail, navigate, dispatch]);
 
   const handleGoToLogin = (): void => {
-    navigate('/login');
+    navigate('/login', { state: loginState });
+  };
+
+  const handleGoToAccount = (): void => {
+    dispatch(refreshCurrentUser());
+    navigate('/account/email');
   };
 
   return (
@@ -90,19 +117,20 @@ const VerifyEmail: React.FC = () => {
                   Email Verified!
                 </Typography>
                 <Alert severity="success" sx={{ mt: 2, mb: 2 }}>
-                  Your email has been successfully verified. You can now log in to your
-                  account.
+                  {isAuthenticated
+                    ? 'Your email has been successfully verified and your account is updated.'
+                    : 'Your email has been successfully verified. You can now log in to your account.'}
                 </Alert>
                 <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                  Redirecting to login page in 3 seconds...
+                  Redirecting to {isAuthenticated ? 'your account' : 'login page'} in 3 seconds...
                 </Typography>
                 <Button
                   variant="contained"
                   color="primary"
-                  onClick={handleGoToLogin}
+                  onClick={isAuthenticated ? handleGoToAccount : handleGoToLogin}
                   fullWidth
                 >
-                  Go to Login
+                  {isAuthenticated ? 'Go to Account' : 'Go to Login'}
                 </Button>
               </>
             )}
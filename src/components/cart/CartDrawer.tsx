@@ -0,0 +1,167 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Avatar,
+  Box,
+  Button,
+  Divider,
+  Drawer,
+  IconButton,
+  Link as MuiLink,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import RemoveIcon from '@mui/icons-material/Remove';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import CloseIcon from '@mui/icons-material/Close';
+import { selectCartItems, selectCartTotals, MAX_LINE_QUANTITY } from '../../redux/slices/cartSlice';
+import type { CartItem } from '../../redux/slices/cartSlice';
+import { changeCartQuantity, removeFromCart } from '../../redux/thunks/cartThunks';
+import { formatPrice } from '../../utilities/catalog';
+import type { AppDispatch } from '../../redux/store';
+
+// Constants
+const DRAWER_WIDTH = 380 as const;
+
+interface CartDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const CartDrawer: React.FC<CartDrawerProps> = ({ open, onClose }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const items = useSelector(selectCartItems);
+  const { itemCount, subtotal, currency } = useSelector(selectCartTotals);
+
+  const handleQuantityChange = (item: CartItem, quantity: number): void => {
+    if (quantity < 1) {
+      dispatch(removeFromCart(item));
+      return;
+    }
+    dispatch(
+      changeCartQuantity({ productId: item.productId, variantId: item.variantId, quantity })
+    );
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box
+        sx={{ width: { xs: '100vw', sm: DRAWER_WIDTH }, display: 'flex', flexDirection: 'column' }}
+        role="presentation"
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', p: 2 }}>
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            Cart ({itemCount})
+          </Typography>
+          <IconButton aria-label="Close cart" onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+        <Divider />
+
+        {items.length === 0 ? (
+          <Typography color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+            Your cart is empty.
+          </Typography>
+        ) : (
+          <List>
+            {items.map((item) => (
+              <ListItem
+                key={`${item.productId}:${item.variantId ?? ''}`}
+                alignItems="flex-start"
+                secondaryAction={
+                  <IconButton
+                    edge="end"
+                    aria-label={`Remove ${item.name}`}
+                    onClick={() => dispatch(removeFromCart(item))}
+                  >
+                    <DeleteOutlineIcon />
+                  </IconButton>
+                }
+              >
+                <ListItemAvatar>
+                  <Avatar variant="rounded" src={item.thumbnailUrl ?? undefined} alt={item.name} />
+                </ListItemAvatar>
+                <ListItemText
+                  primary={
+                    <MuiLink
+                      component={RouterLink}
+                      to={`/products/${item.slug}`}
+                      onClick={onClose}
+                      color="inherit"
+                      underline="hover"
+                    >
+                      {item.name}
+                    </MuiLink>
+                  }
+                  secondary={
+                    <>
+                      {item.variantLabel && (
+                        <Typography component="span" variant="body2" display="block">
+                          {item.variantLabel}
+                        </Typography>
+                      )}
+                      <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <IconButton
+                          size="small"
+                          aria-label="Decrease quantity"
+                          onClick={() => handleQuantityChange(item, item.quantity - 1)}
+                        >
+                          <RemoveIcon fontSize="small" />
+                        </IconButton>
+                        <Typography component="span" variant="body2">
+                          {item.quantity}
+                        </Typography>
+                        <IconButton
+                          size="small"
+                          aria-label="Increase quantity"
+                          onClick={() => handleQuantityChange(item, item.quantity + 1)}
+                          disabled={item.quantity >= MAX_LINE_QUANTITY}
+                        >
+                          <AddIcon fontSize="small" />
+                        </IconButton>
+                        <Typography component="span" variant="body2" sx={{ ml: 'auto' }}>
+                          {formatPrice(item.unitPrice * item.quantity, item.currency)}
+                        </Typography>
+                      </Box>
+                    </>
+                  }
+                  secondaryTypographyProps={{ component: 'div' }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {items.length > 0 && currency && (
+          <>
+            <Divider />
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', p: 2 }}>
+              <Typography variant="subtitle1">Subtotal</Typography>
+              <Typography variant="subtitle1">{formatPrice(subtotal, currency)}</Typography>
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ px: 2 }}>
+              Shipping and taxes are calculated at checkout.
+            </Typography>
+            <Box sx={{ p: 2 }}>
+              <Button
+                fullWidth
+                variant="contained"
+                component={RouterLink}
+                to="/checkout"
+                onClick={onClose}
+              >
+                Checkout
+              </Button>
+            </Box>
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from '@apollo/client';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { CATEGORIES_QUERY } from '../../graphql/operations';
+import {
+  clearCatalogFilters,
+  hasCatalogFilters,
+  parseCatalogView,
+  updateCatalogParam,
+  CatalogParam,
+  ProductSort,
+  PRODUCT_SORT_LABELS,
+} from '../../utilities/catalog';
+import type { Category } from '../../utilities/catalog';
+
+// Constants
+const ALL_CATEGORIES = '' as const;
+
+function toInputValue(price: number | undefined): string {
+  return price === undefined ? '' : String(price);
+}
+
+// Filter and sort controls; every change is written to the URL search params
+export const CatalogFilters: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filter, sort } = parseCatalogView(searchParams);
+  const { data } = useQuery(CATEGORIES_QUERY);
+  const categories: ReadonlyArray<Category> = data?.categories ?? [];
+
+  // Prices are typed freely and only applied on blur or Enter, not on every keystroke
+  const [minPrice, setMinPrice] = useState(toInputValue(filter.minPrice));
+  const [maxPrice, setMaxPrice] = useState(toInputValue(filter.maxPrice));
+
+  useEffect(() => {
+    setMinPrice(toInputValue(filter.minPrice));
+    setMaxPrice(toInputValue(filter.maxPrice));
+  }, [filter.minPrice, filter.maxPrice]);
+
+  const setParam = (param: CatalogParam, value: string | null): void => {
+    setSearchParams(updateCatalogParam(searchParams, param, value));
+  };
+
+  const applyPrice = (param: CatalogParam, value: string): void => {
+    const current = param === CatalogParam.MIN_PRICE ? filter.minPrice : filter.maxPrice;
+    if (value.trim() !== toInputValue(current)) {
+      setParam(param, value.trim());
+    }
+  };
+
+  const handlePriceKeyDown = (
+    param: CatalogParam,
+    value: string
+  ): ((e: React.KeyboardEvent) => void) => {
+    return (e: React.KeyboardEvent): void => {
+      if (e.key === 'Enter') {
+        applyPrice(param, value);
+      }
+    };
+  };
+
+  const hasFilters = hasCatalogFilters(filter);
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center', mb: 3 }}>
+      <FormControl size="small" sx={{ minWidth: 180 }}>
+        <InputLabel id="catalog-category-label">Category</InputLabel>
+        <Select
+          labelId="catalog-category-label"
+          label="Category"
+          value={filter.categorySlug ?? ALL_CATEGORIES}
+          onChange={(e) => setParam(CatalogParam.CATEGORY, e.target.value)}
+        >
+          <MenuItem value={ALL_CATEGORIES}>All categories</MenuItem>
+          {categories.map((category) => (
+            <MenuItem key={category.id} value={category.slug}>
+              {category.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <TextField
+        size="small"
+        label="Min price"
+        type="number"
+        value={minPrice}
+        onChange={(e) => setMinPrice(e.target.value)}
+        onBlur={() => applyPrice(CatalogParam.MIN_PRICE, minPrice)}
+        onKeyDown={handlePriceKeyDown(CatalogParam.MIN_PRICE, minPrice)}
+        inputProps={{ min: 0 }}
+        sx={{ width: 120 }}
+      />
+      <TextField
+        size="small"
+        label="Max price"
+        type="number"
+        value={maxPrice}
+        onChange={(e) => setMaxPrice(e.target.value)}
+        onBlur={() => applyPrice(CatalogParam.MAX_PRICE, maxPrice)}
+        onKeyDown={handlePriceKeyDown(CatalogParam.MAX_PRICE, maxPrice)}
+        inputProps={{ min: 0 }}
+        sx={{ width: 120 }}
+      />
+
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={filter.inStock === true}
+            onChange={(e) => setParam(CatalogParam.IN_STOCK, e.target.checked ? 'true' : null)}
+          />
+        }
+        label="In stock only"
+      />
+
+      <FormControl size="small" sx={{ minWidth: 200, ml: { md: 'auto' } }}>
+        <InputLabel id="catalog-sort-label">Sort by</InputLabel>
+        <Select
+          labelId="catalog-sort-label"
+          label="Sort by"
+          value={sort}
+          onChange={(e) => setParam(CatalogParam.SORT, e.target.value)}
+        >
+          {Object.values(ProductSort).map((option) => (
+            <MenuItem key={option} value={option}>
+              {PRODUCT_SORT_LABELS[option]}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {hasFilters && (
+        <Button onClick={() => setSearchParams(clearCatalogFilters(searchParams))}>
+          Clear filters
+        </Button>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { NetworkStatus, useQuery } from '@apollo/client';
+import { Alert, Box, Typography } from '@mui/material';
+import { PRODUCTS_QUERY } from '../../graphql/operations';
+import { CatalogFilters } from './CatalogFilters';
+import { ProductGrid } from './ProductGrid';
+import { parseCatalogView, CATALOG_PAGE_SIZE } from '../../utilities/catalog';
+import type { ProductSummary } from '../../utilities/catalog';
+
+// Interfaces
+interface ProductEdge {
+  cursor: string;
+  node: ProductSummary;
+}
+
+interface CatalogListingProps {
+  title: string;
+  emptyMessage?: string;
+}
+
+// Filters, grid and pagination for the catalog view described by the URL (see parseCatalogView);
+// shared by the product list and search results
+export const CatalogListing: React.FC<CatalogListingProps> = ({ title, emptyMessage }) => {
+  const [searchParams] = useSearchParams();
+  const { filter, sort } = parseCatalogView(searchParams);
+
+  const { data, loading, error, fetchMore, networkStatus } = useQuery(PRODUCTS_QUERY, {
+    variables: { first: CATALOG_PAGE_SIZE, filter, sort },
+    notifyOnNetworkStatusChange: true,
+  });
+
+  const connection = data?.products;
+  const products: ReadonlyArray<ProductSummary> =
+    connection?.edges.map((edge: ProductEdge) => edge.node) ?? [];
+  const hasNextPage: boolean = connection?.pageInfo.hasNextPage ?? false;
+  const loadingMore = networkStatus === NetworkStatus.fetchMore;
+
+  const handleLoadMore = (): void => {
+    if (!hasNextPage || loadingMore) {
+      return;
+    }
+
+    fetchMore({ variables: { after: connection?.pageInfo.endCursor } }).catch((err: unknown) => {
+      console.error('Failed to load more products:', err);
+    });
+  };
+
+  return (
+    <Box sx={{ mt: 4, mb: 4 }}>
+      <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 2, mb: 2 }}>
+        <Typography variant="h4">{title}</Typography>
+        {connection && (
+          <Typography color="text.secondary">
+            {connection.totalCount} item{connection.totalCount === 1 ? '' : 's'}
+          </Typography>
+        )}
+      </Box>
+
+      <CatalogFilters />
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      <ProductGrid
+        products={products}
+        loading={loading && !loadingMore}
+        loadingMore={loadingMore}
+        hasNextPage={hasNextPage}
+        onLoadMore={handleLoadMore}
+        emptyMessage={emptyMessage}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Card, CardActionArea, CardContent, CardMedia, Chip, Typography } from '@mui/material';
+import { WishlistButton } from '../wishlist/WishlistButton';
+import { formatPrice } from '../../utilities/catalog';
+import type { ProductSummary } from '../../utilities/catalog';
+
+// Constants
+const IMAGE_HEIGHT = 220 as const;
+
+interface ProductCardProps {
+  product: ProductSummary;
+}
+
+export const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+  const isDiscounted = product.compareAtPrice !== null && product.compareAtPrice > product.price;
+
+  return (
+    <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column', position: 'relative' }}>
+      <CardActionArea
+        component={RouterLink}
+        to={`/products/${product.slug}`}
+        sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', alignItems: 'stretch' }}
+      >
+        {product.thumbnailUrl ? (
+          <CardMedia
+            component="img"
+            height={IMAGE_HEIGHT}
+            image={product.thumbnailUrl}
+            alt={product.name}
+            loading="lazy"
+            sx={{ objectFit: 'contain', bgcolor: 'grey.100' }}
+          />
+        ) : (
+          <Box sx={{ height: IMAGE_HEIGHT, bgcolor: 'grey.200' }} />
+        )}
+        <CardContent sx={{ flexGrow: 1 }}>
+          {product.category && (
+            <Typography variant="caption" color="text.secondary">
+              {product.category.name}
+            </Typography>
+          )}
+          <Typography variant="subtitle1" component="h3" gutterBottom>
+            {product.name}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="h6" color={isDiscounted ? 'error.main' : 'text.primary'}>
+              {formatPrice(product.price, product.currency)}
+            </Typography>
+            {isDiscounted && (
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ textDecoration: 'line-through' }}
+              >
+                {formatPrice(product.compareAtPrice as number, product.currency)}
+              </Typography>
+            )}
+          </Box>
+          {!product.inStock && <Chip label="Out of stock" size="small" sx={{ mt: 1 }} />}
+        </CardContent>
+      </CardActionArea>
+      {/* Outside the link so it is its own tab stop */}
+      <WishlistButton
+        product={product}
+        sx={{ position: 'absolute', top: 8, right: 8, bgcolor: 'background.paper' }}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Box, ButtonBase } from '@mui/material';
+import type { ProductImage } from '../../utilities/catalog';
+
+// Constants
+const ZOOM_SCALE = 2 as const;
+const THUMBNAIL_SIZE = 72 as const;
+
+interface ProductGalleryProps {
+  images: ReadonlyArray<ProductImage>;
+  productName: string;
+}
+
+// Main image with hover zoom that follows the pointer, plus a thumbnail strip
+export const ProductGallery: React.FC<ProductGalleryProps> = ({ images, productName }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [zoomOrigin, setZoomOrigin] = useState<string | null>(null);
+  const selected = images[Math.min(selectedIndex, images.length - 1)];
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>): void => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  if (!selected) {
+    return <Box sx={{ aspectRatio: '1', bgcolor: 'grey.200', borderRadius: 1 }} />;
+  }
+
+  return (
+    <Box>
+      <Box
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setZoomOrigin(null)}
+        sx={{
+          aspectRatio: '1',
+          overflow: 'hidden',
+          bgcolor: 'grey.100',
+          borderRadius: 1,
+          cursor: 'zoom-in',
+        }}
+      >
+        <Box
+          component="img"
+          src={selected.url}
+          alt={selected.alt || productName}
+          sx={{
+            width: '100%',
+            height: '100%',
+            objectFit: 'contain',
+            transition: 'transform 0.1s ease-out',
+            transform: zoomOrigin ? `scale(${ZOOM_SCALE})` : 'none',
+            transformOrigin: zoomOrigin ?? 'center',
+          }}
+        />
+      </Box>
+
+      {images.length > 1 && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+          {images.map((image, index) => (
+            <ButtonBase
+              key={image.id}
+              onClick={() => setSelectedIndex(index)}
+              aria-label={`Show image ${index + 1}`}
+              sx={{
+                width: THUMBNAIL_SIZE,
+                height: THUMBNAIL_SIZE,
+                borderRadius: 1,
+                overflow: 'hidden',
+                border: 2,
+                borderColor: image.id === selected.id ? 'primary.main' : 'transparent',
+              }}
+            >
+              <Box
+                component="img"
+                src={image.url}
+                alt=""
+                sx={{ width: '100%', height: '100%', objectFit: 'cover' }}
+              />
+            </ButtonBase>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import { Box, Button, CircularProgress, Grid, Typography } from '@mui/material';
+import { ProductCard } from './ProductCard';
+import type { ProductSummary } from '../../utilities/catalog';
+
+// Constants
+// Start loading the next page a little before the sentinel scrolls into view
+const INFINITE_SCROLL_ROOT_MARGIN = '400px' as const;
+
+interface ProductGridProps {
+  products: ReadonlyArray<ProductSummary>;
+  loading: boolean;
+  loadingMore: boolean;
+  hasNextPage: boolean;
+  onLoadMore: () => void;
+  emptyMessage?: string;
+}
+
+// Responsive product grid with infinite scroll; the "Load more" button remains as a fallback
+export const ProductGrid: React.FC<ProductGridProps> = ({
+  products,
+  loading,
+  loadingMore,
+  hasNextPage,
+  onLoadMore,
+  emptyMessage = 'No products match these filters.',
+}) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || loadingMore || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: INFINITE_SCROLL_ROOT_MARGIN }
+    );
+
+    observer.observe(sentinel);
+    return (): void => observer.disconnect();
+  }, [hasNextPage, loadingMore]);
+
+  if (loading && products.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (products.length === 0) {
+    return (
+      <Typography color="text.secondary" sx={{ p: 6, textAlign: 'center' }}>
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  return (
+    <>
+      <Grid container spacing={3}>
+        {products.map((product) => (
+          <Grid item key={product.id} xs={12} sm={6} md={4} lg={3}>
+            <ProductCard product={product} />
+          </Grid>
+        ))}
+      </Grid>
+
+      {hasNextPage && (
+        <Box ref={sentinelRef} sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <Button variant="outlined" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </Box>
+      )}
+    </>
+  );
+};
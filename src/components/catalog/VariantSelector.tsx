@@ -0,0 +1,79 @@
+import React from 'react';
+import { Box, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { findVariant, getVariantOptionValues, VariantOption } from '../../utilities/catalog';
+import type { ProductVariant } from '../../utilities/catalog';
+
+// Interfaces
+export interface VariantSelection {
+  size: string | null;
+  color: string | null;
+}
+
+interface VariantSelectorProps {
+  variants: ReadonlyArray<ProductVariant>;
+  selection: VariantSelection;
+  onChange: (selection: VariantSelection) => void;
+}
+
+const OPTION_LABELS: Record<VariantOption, string> = {
+  [VariantOption.SIZE]: 'Size',
+  [VariantOption.COLOR]: 'Color',
+};
+
+// One toggle group per option; values with no in-stock variant for the other choice are struck
+// through but stay selectable so the shopper can see why a combination is unavailable
+export const VariantSelector: React.FC<VariantSelectorProps> = ({
+  variants,
+  selection,
+  onChange,
+}) => {
+  const isAvailable = (option: VariantOption, value: string): boolean => {
+    const candidate: VariantSelection = { ...selection, [option]: value };
+    const otherOption = option === VariantOption.SIZE ? VariantOption.COLOR : VariantOption.SIZE;
+
+    // Until the other option is chosen, any in-stock variant with this value counts
+    if (candidate[otherOption] === null) {
+      return variants.some((variant) => variant[option] === value && variant.inStock);
+    }
+    return findVariant(variants, candidate.size, candidate.color)?.inStock ?? false;
+  };
+
+  return (
+    <Box>
+      {Object.values(VariantOption).map((option) => {
+        const values = getVariantOptionValues(variants, option);
+        if (values.length === 0) {
+          return null;
+        }
+
+        return (
+          <Box key={option} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {OPTION_LABELS[option]}
+              {selection[option] && `: ${selection[option]}`}
+            </Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={selection[option]}
+              onChange={(_, value: string | null) => onChange({ ...selection, [option]: value })}
+              sx={{ flexWrap: 'wrap' }}
+            >
+              {values.map((value) => (
+                <ToggleButton
+                  key={value}
+                  value={value}
+                  sx={{
+                    textDecoration: isAvailable(option, value) ? 'none' : 'line-through',
+                  }}
+                >
+                  {value}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Typography,
+} from '@mui/material';
+import { formatPrice } from '../../utilities/catalog';
+import type { DeliveryOption } from '../../utilities/checkout';
+
+interface DeliveryStepProps {
+  options: ReadonlyArray<DeliveryOption>;
+  loading: boolean;
+  errorMessage?: string;
+  selectedOptionId: string | null;
+  onSelect: (optionId: string) => void;
+}
+
+function formatEstimate(days: number | null): string | null {
+  if (days === null) {
+    return null;
+  }
+  return days === 1 ? 'Arrives in 1 business day' : `Arrives in ${days} business days`;
+}
+
+export const DeliveryStep: React.FC<DeliveryStepProps> = ({
+  options,
+  loading,
+  errorMessage,
+  selectedOptionId,
+  onSelect,
+}) => {
+  if (loading && options.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (errorMessage) {
+    return <Alert severity="error">{errorMessage}</Alert>;
+  }
+
+  if (options.length === 0) {
+    return <Alert severity="warning">We can&apos;t deliver to this address.</Alert>;
+  }
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Delivery method
+      </Typography>
+      <RadioGroup value={selectedOptionId ?? ''} onChange={(e) => onSelect(e.target.value)}>
+        {options.map((option) => (
+          <FormControlLabel
+            key={option.id}
+            value={option.id}
+            control={<Radio />}
+            label={
+              <Box>
+                <Typography variant="body1">
+                  {option.name} —{' '}
+                  {option.cost === 0 ? 'Free' : formatPrice(option.cost, option.currency)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {[option.description, formatEstimate(option.estimatedDays)]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Typography>
+              </Box>
+            }
+            sx={{ alignItems: 'flex-start', mb: 1, '& .MuiRadio-root': { pt: 0.5 } }}
+          />
+        ))}
+      </RadioGroup>
+    </Box>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Box, TextField } from '@mui/material';
+import type { PaymentFormProps } from '../../utilities/payments';
+import {
+  FAKE_APPROVED_CARD,
+  FAKE_DECLINED_CARD,
+  normalizeCardNumber,
+} from '../../utilities/fakePaymentProvider';
+
+// Constants
+const EXPIRY_PATTERN = /^(0[1-9]|1[0-2])\/\d{2}$/;
+const CVC_PATTERN = /^\d{3,4}$/;
+const CARD_NUMBER_PATTERN = /^\d{12,19}$/;
+
+// Card form for the development payment provider; nothing entered here leaves the browser
+export const FakePaymentForm: React.FC<PaymentFormProps> = ({ onChange, disabled }) => {
+  const [cardNumber, setCardNumber] = useState('');
+  const [expiry, setExpiry] = useState('');
+  const [cvc, setCvc] = useState('');
+
+  useEffect(() => {
+    const number = normalizeCardNumber(cardNumber);
+    const complete =
+      CARD_NUMBER_PATTERN.test(number) && EXPIRY_PATTERN.test(expiry) && CVC_PATTERN.test(cvc);
+    onChange(complete ? { cardNumber: number, expiry, cvc } : null);
+  }, [cardNumber, expiry, cvc, onChange]);
+
+  return (
+    <Box>
+      <Alert severity="info" sx={{ mb: 2 }}>
+        Test payments only. Use {FAKE_APPROVED_CARD} to approve or {FAKE_DECLINED_CARD} to simulate
+        a decline, with any future expiry and CVC.
+      </Alert>
+      <TextField
+        fullWidth
+        label="Card number"
+        value={cardNumber}
+        onChange={(e) => setCardNumber(e.target.value)}
+        margin="normal"
+        inputProps={{ inputMode: 'numeric', autoComplete: 'cc-number' }}
+        disabled={disabled}
+        required
+      />
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          label="Expiry (MM/YY)"
+          value={expiry}
+          onChange={(e) => setExpiry(e.target.value)}
+          margin="normal"
+          inputProps={{ autoComplete: 'cc-exp' }}
+          disabled={disabled}
+          required
+        />
+        <TextField
+          label="CVC"
+          value={cvc}
+          onChange={(e) => setCvc(e.target.value)}
+          margin="normal"
+          inputProps={{ inputMode: 'numeric', autoComplete: 'cc-csc' }}
+          disabled={disabled}
+          required
+        />
+      </Box>
+    </Box>
+  );
+};
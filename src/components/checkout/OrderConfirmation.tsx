@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+import { Alert, Box, Button, Paper, TextField, Typography } from '@mui/material';
+import { registerUser } from '../../redux/thunks/authThunks';
+import type { AuthError } from '../../redux/slices/authSlice';
+import { formatPrice } from '../../utilities/catalog';
+import { evaluatePassword, getPasswordPolicyError } from '../../utilities/passwordPolicy';
+import type { PlacedOrder } from '../../utilities/checkout';
+import type { AppDispatch } from '../../redux/store';
+import { PasswordStrengthMeter } from '../auth/PasswordStrengthMeter';
+
+interface OrderConfirmationProps {
+  order: PlacedOrder;
+  isGuest: boolean;
+  // Prefills the account form for guests
+  customerName: string;
+}
+
+// Lets a guest turn the email they just ordered with into an account
+const CreateAccountForm: React.FC<{ email: string; defaultName: string }> = ({
+  email,
+  defaultName,
+}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [name, setName] = useState(defaultName);
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<AuthError | null>(null);
+  const [validationError, setValidationError] = useState('');
+  const [registered, setRegistered] = useState(false);
+  const passwordEvaluation = evaluatePassword(password, { email, name });
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setValidationError('');
+    setError(null);
+
+    const passwordError = getPasswordPolicyError(passwordEvaluation);
+    if (!name.trim() || passwordError) {
+      setValidationError(passwordError ?? 'Name is required');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await dispatch(registerUser({ email, password, name })).unwrap();
+      setRegistered(true);
+    } catch (err) {
+      console.error('Registration failed:', err);
+      setError(err as AuthError);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (registered) {
+    return (
+      <Alert severity="success">
+        Account created! Check {email} to verify it, then log in to track this order.
+      </Alert>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Typography variant="h6" gutterBottom>
+        Create an account
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        Save your details for next time and track this order from your account.
+      </Typography>
+
+      {(validationError || error) && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {validationError || error?.message}
+        </Alert>
+      )}
+
+      <TextField fullWidth label="Email" value={email} margin="normal" disabled />
+      <TextField
+        fullWidth
+        label="Name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        margin="normal"
+        required
+        error={Boolean(error?.fieldErrors?.name)}
+        helperText={error?.fieldErrors?.name}
+      />
+      <TextField
+        fullWidth
+        label="Password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        margin="normal"
+        required
+        error={Boolean(error?.fieldErrors?.password)}
+        helperText={error?.fieldErrors?.password}
+        inputProps={{ autoComplete: 'new-password' }}
+      />
+      {password && <PasswordStrengthMeter evaluation={passwordEvaluation} />}
+      <Button type="submit" variant="contained" sx={{ mt: 2 }} disabled={submitting}>
+        {submitting ? 'Creating account...' : 'Create account'}
+      </Button>
+    </form>
+  );
+};
+
+export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
+  order,
+  isGuest,
+  customerName,
+}) => (
+  <Box sx={{ maxWidth: 560, mx: 'auto' }}>
+    <Typography variant="h4" gutterBottom>
+      Thank you for your order!
+    </Typography>
+    <Typography>
+      Order <strong>#{order.number}</strong> for {formatPrice(order.total, order.currency)} has been
+      placed. A confirmation was sent to {order.email}.
+    </Typography>
+
+    {isGuest ? (
+      <Paper variant="outlined" sx={{ p: 3, mt: 3 }}>
+        <CreateAccountForm email={order.email} defaultName={customerName} />
+      </Paper>
+    ) : (
+      <Box sx={{ display: 'flex', gap: 2, mt: 3 }}>
+        <Button component={RouterLink} to={`/account/orders/${order.id}`} variant="contained">
+          View order
+        </Button>
+        <Button component={RouterLink} to="/products" variant="outlined">
+          Continue shopping
+        </Button>
+      </Box>
+    )}
+  </Box>
+);
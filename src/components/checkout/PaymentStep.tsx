@@ -0,0 +1,58 @@
+import React from 'react';
+import { Alert, Box, FormControlLabel, Radio, RadioGroup, Typography } from '@mui/material';
+import type { PaymentDetails, PaymentProvider, PaymentProviderId } from '../../utilities/payments';
+
+interface PaymentStepProps {
+  providers: ReadonlyArray<PaymentProvider>;
+  selectedProviderId: PaymentProviderId | null;
+  onSelectProvider: (providerId: PaymentProviderId) => void;
+  onDetailsChange: (details: PaymentDetails | null) => void;
+  errorMessage?: string;
+  disabled?: boolean;
+}
+
+// Renders whichever provider is selected; the details stay with the provider until tokenized
+export const PaymentStep: React.FC<PaymentStepProps> = ({
+  providers,
+  selectedProviderId,
+  onSelectProvider,
+  onDetailsChange,
+  errorMessage,
+  disabled,
+}) => {
+  const provider = providers.find(({ id }) => id === selectedProviderId);
+
+  if (providers.length === 0) {
+    return <Alert severity="error">No payment methods are available right now.</Alert>;
+  }
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Payment
+      </Typography>
+
+      {providers.length > 1 && (
+        <RadioGroup
+          row
+          value={selectedProviderId ?? ''}
+          onChange={(e) => onSelectProvider(e.target.value as PaymentProviderId)}
+        >
+          {providers.map(({ id, label }) => (
+            <FormControlLabel key={id} value={id} control={<Radio />} label={label} />
+          ))}
+        </RadioGroup>
+      )}
+
+      {errorMessage && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {errorMessage}
+        </Alert>
+      )}
+
+      {provider && (
+        <provider.Form key={provider.id} onChange={onDetailsChange} disabled={disabled} />
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,127 @@
+import React from 'react';
+import {
+  Alert,
+  Avatar,
+  Box,
+  Button,
+  Divider,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { formatAddress } from '../../utilities/addresses';
+import type { AddressInput } from '../../utilities/addresses';
+import { formatPrice } from '../../utilities/catalog';
+import type { CartItem } from '../../redux/slices/cartSlice';
+import type { DeliveryOption } from '../../utilities/checkout';
+import type { PaymentToken } from '../../utilities/payments';
+
+interface ReviewStepProps {
+  items: ReadonlyArray<CartItem>;
+  email: string;
+  address: AddressInput;
+  deliveryOption: DeliveryOption;
+  payment: PaymentToken;
+  subtotal: number;
+  currency: string;
+  placing: boolean;
+  errorMessage?: string;
+  onPlaceOrder: () => void;
+}
+
+const SummaryRow: React.FC<{ label: string; value: string; bold?: boolean }> = ({
+  label,
+  value,
+  bold,
+}) => (
+  <Box sx={{ display: 'flex', justifyContent: 'space-between', py: 0.5 }}>
+    <Typography fontWeight={bold ? 'bold' : undefined}>{label}</Typography>
+    <Typography fontWeight={bold ? 'bold' : undefined}>{value}</Typography>
+  </Box>
+);
+
+export const ReviewStep: React.FC<ReviewStepProps> = ({
+  items,
+  email,
+  address,
+  deliveryOption,
+  payment,
+  subtotal,
+  currency,
+  placing,
+  errorMessage,
+  onPlaceOrder,
+}) => (
+  <Box>
+    <Typography variant="h6" gutterBottom>
+      Review your order
+    </Typography>
+
+    <List disablePadding>
+      {items.map((item) => (
+        <ListItem key={`${item.productId}:${item.variantId ?? ''}`} disableGutters>
+          <ListItemAvatar>
+            <Avatar variant="rounded" src={item.thumbnailUrl ?? undefined} alt={item.name} />
+          </ListItemAvatar>
+          <ListItemText primary={`${item.name} × ${item.quantity}`} secondary={item.variantLabel} />
+          <Typography variant="body2">
+            {formatPrice(item.unitPrice * item.quantity, item.currency)}
+          </Typography>
+        </ListItem>
+      ))}
+    </List>
+    <Divider sx={{ my: 2 }} />
+
+    <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+      <Box>
+        <Typography variant="subtitle2">Ship to</Typography>
+        <Typography variant="body2">{address.fullName}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {formatAddress(address)}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {email}
+        </Typography>
+      </Box>
+      <Box>
+        <Typography variant="subtitle2">Delivery</Typography>
+        <Typography variant="body2">{deliveryOption.name}</Typography>
+        <Typography variant="subtitle2" sx={{ mt: 1 }}>
+          Payment
+        </Typography>
+        <Typography variant="body2">{payment.summary}</Typography>
+      </Box>
+    </Box>
+    <Divider sx={{ my: 2 }} />
+
+    <SummaryRow label="Subtotal" value={formatPrice(subtotal, currency)} />
+    <SummaryRow
+      label="Delivery"
+      value={
+        deliveryOption.cost === 0
+          ? 'Free'
+          : formatPrice(deliveryOption.cost, deliveryOption.currency)
+      }
+    />
+    <SummaryRow label="Total" value={formatPrice(subtotal + deliveryOption.cost, currency)} bold />
+
+    {errorMessage && (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        {errorMessage}
+      </Alert>
+    )}
+
+    <Button
+      fullWidth
+      variant="contained"
+      size="large"
+      sx={{ mt: 3 }}
+      onClick={onPlaceOrder}
+      disabled={placing}
+    >
+      {placing ? 'Placing order...' : 'Place order'}
+    </Button>
+  </Box>
+);
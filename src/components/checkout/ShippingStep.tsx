@@ -0,0 +1,89 @@
+import React from 'react';
+import { Box, FormControlLabel, Radio, RadioGroup, TextField, Typography } from '@mui/material';
+import { AddressForm } from '../addresses/AddressForm';
+import { formatAddress } from '../../utilities/addresses';
+import type { Address, AddressInput } from '../../utilities/addresses';
+
+// Constants
+export const NEW_ADDRESS = 'NEW' as const;
+
+interface ShippingStepProps {
+  isGuest: boolean;
+  email: string;
+  onEmailChange: (email: string) => void;
+  savedAddresses: ReadonlyArray<Address>;
+  // Id of the chosen saved address, or NEW_ADDRESS to use the form
+  selectedAddressId: string;
+  onSelectAddress: (id: string) => void;
+  address: AddressInput;
+  onAddressChange: (address: AddressInput) => void;
+  fieldErrors: Record<string, string>;
+}
+
+export const ShippingStep: React.FC<ShippingStepProps> = ({
+  isGuest,
+  email,
+  onEmailChange,
+  savedAddresses,
+  selectedAddressId,
+  onSelectAddress,
+  address,
+  onAddressChange,
+  fieldErrors,
+}) => (
+  <Box>
+    {isGuest && (
+      <>
+        <Typography variant="h6" gutterBottom>
+          Contact
+        </Typography>
+        <TextField
+          fullWidth
+          label="Email"
+          type="email"
+          value={email}
+          onChange={(e) => onEmailChange(e.target.value)}
+          error={Boolean(fieldErrors.email)}
+          helperText={fieldErrors.email ?? 'Your order confirmation is sent here'}
+          inputProps={{ autoComplete: 'email' }}
+          required
+          sx={{ mb: 3 }}
+        />
+      </>
+    )}
+
+    <Typography variant="h6" gutterBottom>
+      Shipping address
+    </Typography>
+
+    {savedAddresses.length > 0 && (
+      <RadioGroup
+        value={selectedAddressId}
+        onChange={(e) => onSelectAddress(e.target.value)}
+        sx={{ mb: 2 }}
+      >
+        {savedAddresses.map((saved) => (
+          <FormControlLabel
+            key={saved.id}
+            value={saved.id}
+            control={<Radio />}
+            label={
+              <Box>
+                <Typography variant="body1">{saved.fullName}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {formatAddress(saved)}
+                </Typography>
+              </Box>
+            }
+            sx={{ alignItems: 'flex-start', mb: 1, '& .MuiRadio-root': { pt: 0.5 } }}
+          />
+        ))}
+        <FormControlLabel value={NEW_ADDRESS} control={<Radio />} label="Use a new address" />
+      </RadioGroup>
+    )}
+
+    {selectedAddressId === NEW_ADDRESS && (
+      <AddressForm value={address} onChange={onAddressChange} fieldErrors={fieldErrors} />
+    )}
+  </Box>
+);
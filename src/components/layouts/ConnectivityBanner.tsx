@@ -0,0 +1,53 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useApolloClient } from '@apollo/client';
+import { Alert, Button } from '@mui/material';
+import { selectIsConnectionDegraded, selectIsOnline } from '../../redux/slices/connectivitySlice';
+import { checkServerHealth } from '../../utilities/connectivityMonitor';
+
+// Shown under the navbar while offline or while the server cannot be reached
+export const ConnectivityBanner: React.FC = () => {
+  const isOnline = useSelector(selectIsOnline);
+  const isDegraded = useSelector(selectIsConnectionDegraded);
+  const client = useApolloClient();
+  const [checking, setChecking] = useState(false);
+  const wasDegraded = useRef(isDegraded);
+
+  // Queries that failed during the outage are refetched once the connection is back
+  useEffect(() => {
+    if (wasDegraded.current && !isDegraded) {
+      client.refetchQueries({ include: 'active' }).catch((err: unknown) => {
+        console.error('Failed to refetch queries after reconnecting:', err);
+      });
+    }
+    wasDegraded.current = isDegraded;
+  }, [isDegraded, client]);
+
+  const handleRetry = async (): Promise<void> => {
+    setChecking(true);
+    await checkServerHealth();
+    setChecking(false);
+  };
+
+  if (!isDegraded) {
+    return null;
+  }
+
+  return (
+    <Alert
+      severity="warning"
+      square
+      action={
+        isOnline && (
+          <Button color="inherit" size="small" onClick={handleRetry} disabled={checking}>
+            {checking ? 'Checking...' : 'Retry now'}
+          </Button>
+        )
+      }
+    >
+      {isOnline
+        ? 'We are having trouble reaching the server. Retrying automatically...'
+        : 'You are offline. Some features are unavailable until your connection returns.'}
+    </Alert>
+  );
+};
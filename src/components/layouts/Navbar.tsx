@@ -1,14 +1,27 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link as RouterLink } from 'react-router-dom';
 import { useSelector, useDispatch } from 'react-redux';
-import { AppBar, Toolbar, Typography, Button, Box } from '@mui/material';
+import { AppBar, Toolbar, Typography, Button, Box, IconButton, Badge } from '@mui/material';
+import ShoppingCartIcon from '@mui/icons-material/ShoppingCart';
+import FavoriteBorderIcon from '@mui/icons-material/FavoriteBorder';
 import { selectIsAuthenticated, selectCurrentUser } from '../../redux/slices/authSlice';
+import { selectCartItemCount } from '../../redux/slices/cartSlice';
+import { selectWishlistCount } from '../../redux/slices/wishlistSlice';
 import { logoutUser } from '../../redux/thunks/authThunks';
+import { ADMIN_ACCESS, ADMIN_PATH } from '../../pages/AdminDashboard';
+import { Can } from '../auth/Can';
+import { CartDrawer } from '../cart/CartDrawer';
+import { OrderNotifications } from '../orders/OrderNotifications';
+import { ConnectivityBanner } from './ConnectivityBanner';
+import { SearchBox } from './SearchBox';
 import type { AppDispatch } from '../../redux/store';
 
 export const Navbar: React.FC = () => {
   const isAuthenticated = useSelector(selectIsAuthenticated);
   const currentUser = useSelector(selectCurrentUser);
+  const cartItemCount = useSelector(selectCartItemCount);
+  const wishlistCount = useSelector(selectWishlistCount);
+  const [cartOpen, setCartOpen] = useState(false);
   const dispatch = useDispatch<AppDispatch>();
 
   const handleLogout = (): void => {
@@ -16,30 +29,69 @@ export const Navbar: React.FC = () => {
   };
 
   return (
-    <AppBar position="static">
-      <Toolbar>
-        <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
-          Auth App
-        </Typography>
-
-        {isAuthenticated ? (
-          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-            <Typography>Welcome, {currentUser?.name}</Typography>
-            <Button color="inherit" onClick={handleLogout}>
-              Logout
-            </Button>
-          </Box>
-        ) : (
-          <Box sx={{ display: 'flex', gap: 1 }}>
-            <Button color="inherit" component={RouterLink} to="/login">
-              Login
-            </Button>
-            <Button color="inherit" component={RouterLink} to="/register">
-              Register
-            </Button>
+    <>
+      <AppBar position="static">
+        <Toolbar>
+          <Typography variant="h6" component="div">
+            Auth App
+          </Typography>
+          <Button color="inherit" component={RouterLink} to="/products" sx={{ ml: 2 }}>
+            Shop
+          </Button>
+          <Box sx={{ flexGrow: 1, display: 'flex', justifyContent: 'center', mx: 2 }}>
+            <SearchBox />
           </Box>
-        )}
-      </Toolbar>
-    </AppBar>
+          <IconButton
+            color="inherit"
+            component={RouterLink}
+            to="/wishlist"
+            aria-label={`Wishlist with ${wishlistCount} item${wishlistCount === 1 ? '' : 's'}`}
+          >
+            <Badge badgeContent={wishlistCount} color="secondary" max={99}>
+              <FavoriteBorderIcon />
+            </Badge>
+          </IconButton>
+          <IconButton
+            color="inherit"
+            aria-label={`Cart with ${cartItemCount} item${cartItemCount === 1 ? '' : 's'}`}
+            onClick={() => setCartOpen(true)}
+            sx={{ mr: 2 }}
+          >
+            <Badge badgeContent={cartItemCount} color="secondary" max={99}>
+              <ShoppingCartIcon />
+            </Badge>
+          </IconButton>
+
+          {isAuthenticated ? (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <OrderNotifications />
+              <Typography>Welcome, {currentUser?.name}</Typography>
+              <Button color="inherit" component={RouterLink} to="/account">
+                Account
+              </Button>
+              <Can {...ADMIN_ACCESS}>
+                <Button color="inherit" component={RouterLink} to={ADMIN_PATH}>
+                  Admin
+                </Button>
+              </Can>
+              <Button color="inherit" onClick={handleLogout}>
+                Logout
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button color="inherit" component={RouterLink} to="/login">
+                Login
+              </Button>
+              <Button color="inherit" component={RouterLink} to="/register">
+                Register
+              </Button>
+            </Box>
+          )}
+        </Toolbar>
+      </AppBar>
+      <ConnectivityBanner />
+      <CartDrawer open={cartOpen} onClose={() => setCartOpen(false)} />
+    </>
   );
 };
@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useApolloClient } from '@apollo/client';
+import {
+  Autocomplete,
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  InputAdornment,
+  ListSubheader,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { AutocompleteRenderGroupParams } from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import HistoryIcon from '@mui/icons-material/History';
+import CategoryIcon from '@mui/icons-material/Category';
+import { SEARCH_SUGGESTIONS_QUERY } from '../../graphql/operations';
+import { formatPrice, CatalogParam } from '../../utilities/catalog';
+import type { Category } from '../../utilities/catalog';
+import {
+  buildSearchPath,
+  clearRecentSearches,
+  loadRecentSearches,
+  saveRecentSearch,
+  SearchSuggestionType,
+  MIN_SUGGESTION_QUERY_LENGTH,
+  SEARCH_DEBOUNCE_MS,
+  SEARCH_PATH,
+  SEARCH_SUGGESTION_GROUP_LABELS,
+  SUGGESTION_LIMIT,
+} from '../../utilities/search';
+import type { SearchSuggestion, SuggestedProduct } from '../../utilities/search';
+
+// Constants
+// Recent searches shown alongside live suggestions once the user has typed something
+const MATCHING_RECENT_LIMIT = 3 as const;
+
+// Interfaces
+interface SearchSuggestionsResult {
+  searchSuggestions: {
+    products: SuggestedProduct[];
+    categories: Category[];
+  };
+}
+
+function toSuggestions({ searchSuggestions }: SearchSuggestionsResult): SearchSuggestion[] {
+  return [
+    ...searchSuggestions.products.map(
+      (product): SearchSuggestion => ({
+        type: SearchSuggestionType.PRODUCT,
+        label: product.name,
+        product,
+      })
+    ),
+    ...searchSuggestions.categories.map(
+      (category): SearchSuggestion => ({
+        type: SearchSuggestionType.CATEGORY,
+        label: category.name,
+        category,
+      })
+    ),
+  ];
+}
+
+function getSuggestionKey(suggestion: SearchSuggestion): string {
+  switch (suggestion.type) {
+    case SearchSuggestionType.PRODUCT:
+      return `product:${suggestion.product.id}`;
+    case SearchSuggestionType.CATEGORY:
+      return `category:${suggestion.category.id}`;
+    default:
+      return `recent:${suggestion.label}`;
+  }
+}
+
+// Navbar type-ahead. Arrow keys move through the suggestions and Enter opens the highlighted
+// one; Enter with nothing highlighted searches for the typed text on /search.
+export const SearchBox: React.FC = () => {
+  const client = useApolloClient();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [inputValue, setInputValue] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>(loadRecentSearches);
+
+  const term = inputValue.trim();
+
+  // Keep the box in step with the results page, including back/forward navigation
+  useEffect(() => {
+    if (location.pathname === SEARCH_PATH) {
+      setInputValue(new URLSearchParams(location.search).get(CatalogParam.QUERY) ?? '');
+    }
+  }, [location.pathname, location.search]);
+
+  // Debounced suggestions. Every keystroke aborts the previous request, in flight or not yet
+  // sent, and an aborted response is never applied, so suggestions cannot arrive out of order.
+  useEffect(() => {
+    if (term.length < MIN_SUGGESTION_QUERY_LENGTH) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setLoading(true);
+      client
+        .query<SearchSuggestionsResult>({
+          query: SEARCH_SUGGESTIONS_QUERY,
+          variables: { query: term, first: SUGGESTION_LIMIT },
+          // A shared in-flight request could not be cancelled for this caller alone
+          context: { fetchOptions: { signal: controller.signal }, queryDeduplication: false },
+        })
+        .then(({ data }) => {
+          if (!controller.signal.aborted) {
+            setSuggestions(toSuggestions(data));
+          }
+        })
+        .catch((err: unknown) => {
+          if (!controller.signal.aborted) {
+            console.error('Search suggestions failed:', err);
+            setSuggestions([]);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setLoading(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return (): void => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [client, term]);
+
+  const matchingRecentSearches: SearchSuggestion[] = (
+    term
+      ? recentSearches
+          .filter((query) => query.toLowerCase().includes(term.toLowerCase()))
+          .slice(0, MATCHING_RECENT_LIMIT)
+      : recentSearches
+  ).map((query) => ({ type: SearchSuggestionType.RECENT, label: query }));
+
+  const options =
+    term.length >= MIN_SUGGESTION_QUERY_LENGTH
+      ? [...matchingRecentSearches, ...suggestions]
+      : matchingRecentSearches;
+
+  const submitSearch = (query: string): void => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    setRecentSearches(saveRecentSearch(trimmed));
+    setInputValue(trimmed);
+    navigate(buildSearchPath(trimmed));
+  };
+
+  const handleChange = (
+    _event: React.SyntheticEvent,
+    value: string | SearchSuggestion | null
+  ): void => {
+    if (value === null) {
+      return;
+    }
+    if (typeof value === 'string') {
+      submitSearch(value);
+      return;
+    }
+
+    switch (value.type) {
+      case SearchSuggestionType.RECENT:
+        submitSearch(value.label);
+        break;
+      case SearchSuggestionType.PRODUCT:
+        setInputValue('');
+        navigate(`/products/${value.product.slug}`);
+        break;
+      case SearchSuggestionType.CATEGORY:
+        setInputValue('');
+        navigate(`/products?${CatalogParam.CATEGORY}=${encodeURIComponent(value.category.slug)}`);
+        break;
+    }
+  };
+
+  const handleClearRecent = (): void => {
+    clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const renderGroup = (params: AutocompleteRenderGroupParams): React.ReactNode => (
+    <li key={params.key}>
+      <ListSubheader sx={{ display: 'flex', alignItems: 'center' }}>
+        <Box component="span" sx={{ flexGrow: 1 }}>
+          {SEARCH_SUGGESTION_GROUP_LABELS[params.group as SearchSuggestionType]}
+        </Box>
+        {params.group === SearchSuggestionType.RECENT && (
+          // mousedown would blur the input and close the list before the click lands
+          <Button size="small" onMouseDown={(e) => e.preventDefault()} onClick={handleClearRecent}>
+            Clear
+          </Button>
+        )}
+      </ListSubheader>
+      <Box component="ul" sx={{ p: 0 }}>
+        {params.children}
+      </Box>
+    </li>
+  );
+
+  const renderOption = (
+    { key: _key, ...props }: React.HTMLAttributes<HTMLLIElement> & { key: unknown },
+    option: SearchSuggestion
+  ): React.ReactNode => (
+    <Box component="li" {...props} key={getSuggestionKey(option)} sx={{ gap: 1.5 }}>
+      {option.type === SearchSuggestionType.PRODUCT ? (
+        <>
+          <Avatar
+            variant="rounded"
+            src={option.product.thumbnailUrl ?? undefined}
+            alt=""
+            sx={{ width: 32, height: 32 }}
+          />
+          <Box sx={{ flexGrow: 1 }}>{option.label}</Box>
+          <Typography variant="body2" color="text.secondary">
+            {formatPrice(option.product.price, option.product.currency)}
+          </Typography>
+        </>
+      ) : (
+        <>
+          {option.type === SearchSuggestionType.RECENT ? (
+            <HistoryIcon fontSize="small" color="action" />
+          ) : (
+            <CategoryIcon fontSize="small" color="action" />
+          )}
+          {option.label}
+        </>
+      )}
+    </Box>
+  );
+
+  return (
+    <Autocomplete<SearchSuggestion, false, false, true>
+      freeSolo
+      blurOnSelect
+      value={null}
+      options={options}
+      // Suggestions are already filtered by the server
+      filterOptions={(x) => x}
+      groupBy={(option) => option.type}
+      getOptionLabel={(option) => (typeof option === 'string' ? option : option.label)}
+      inputValue={inputValue}
+      // Selecting an option would copy its label into the box; handleChange sets the text instead
+      onInputChange={(_event, value, reason) => reason !== 'reset' && setInputValue(value)}
+      onChange={handleChange}
+      renderGroup={renderGroup}
+      renderOption={renderOption}
+      sx={{ width: { xs: 180, sm: 280, md: 360 } }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          size="small"
+          placeholder="Search products"
+          inputProps={{ ...params.inputProps, 'aria-label': 'Search products' }}
+          InputProps={{
+            ...params.InputProps,
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+            endAdornment: (
+              <>
+                {loading && <CircularProgress color="inherit" size={16} />}
+                {params.InputProps.endAdornment}
+              </>
+            ),
+          }}
+          sx={{ bgcolor: 'background.paper', borderRadius: 1 }}
+        />
+      )}
+    />
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { useSubscription } from '@apollo/client';
+import { Badge, IconButton, ListItemText, Menu, MenuItem } from '@mui/material';
+import NotificationsIcon from '@mui/icons-material/Notifications';
+import { ORDER_STATUS_CHANGED_SUBSCRIPTION } from '../../graphql/operations';
+import {
+  addOrderUpdate,
+  clearOrderUpdates,
+  markOrderUpdateRead,
+  selectUnreadOrderUpdates,
+} from '../../redux/slices/orderUpdatesSlice';
+import type { OrderStatusUpdate } from '../../redux/slices/orderUpdatesSlice';
+import { ORDER_STATUS_LABELS } from '../../utilities/orders';
+import type { Order } from '../../utilities/orders';
+import type { AppDispatch } from '../../redux/store';
+
+// Listens for order status changes while signed in and lists the unread ones.
+// Apollo writes each pushed order into the cache, which refreshes any open order view.
+export const OrderNotifications: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const updates = useSelector(selectUnreadOrderUpdates);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  useSubscription(ORDER_STATUS_CHANGED_SUBSCRIPTION, {
+    onData: ({ data }) => {
+      const order: Pick<Order, 'id' | 'number' | 'status'> | undefined =
+        data.data?.orderStatusChanged;
+      if (order) {
+        dispatch(
+          addOrderUpdate({
+            orderId: order.id,
+            orderNumber: order.number,
+            status: order.status,
+            receivedAt: new Date().toISOString(),
+          })
+        );
+      }
+    },
+    onError: (err) => {
+      console.error('Order status subscription failed:', err);
+    },
+  });
+
+  const handleOpenUpdate = (update: OrderStatusUpdate): void => {
+    setAnchorEl(null);
+    dispatch(markOrderUpdateRead(update.orderId));
+    navigate(`/account/orders/${update.orderId}`);
+  };
+
+  const handleClearAll = (): void => {
+    setAnchorEl(null);
+    dispatch(clearOrderUpdates());
+  };
+
+  return (
+    <>
+      <IconButton
+        color="inherit"
+        aria-label={`${updates.length} order update${updates.length === 1 ? '' : 's'}`}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+      >
+        <Badge badgeContent={updates.length} color="secondary">
+          <NotificationsIcon />
+        </Badge>
+      </IconButton>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {updates.length === 0 && <MenuItem disabled>No new order updates</MenuItem>}
+        {updates.map((update) => (
+          <MenuItem key={update.orderId} onClick={() => handleOpenUpdate(update)}>
+            <ListItemText
+              primary={`Order #${update.orderNumber}: ${ORDER_STATUS_LABELS[update.status] ?? update.status}`}
+              secondary={new Date(update.receivedAt).toLocaleTimeString()}
+            />
+          </MenuItem>
+        ))}
+        {updates.length > 0 && <MenuItem onClick={handleClearAll}>Mark all as read</MenuItem>}
+      </Menu>
+    </>
+  );
+};
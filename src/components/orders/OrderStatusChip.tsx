@@ -0,0 +1,16 @@
+import React from 'react';
+import { Chip } from '@mui/material';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS } from '../../utilities/orders';
+import type { OrderStatus } from '../../utilities/orders';
+
+interface OrderStatusChipProps {
+  status: OrderStatus;
+}
+
+export const OrderStatusChip: React.FC<OrderStatusChipProps> = ({ status }) => (
+  <Chip
+    size="small"
+    label={ORDER_STATUS_LABELS[status] ?? status}
+    color={ORDER_STATUS_COLORS[status] ?? 'default'}
+  />
+);
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Step, StepContent, StepLabel, Stepper, Typography } from '@mui/material';
+import { FULFILMENT_STEPS, ORDER_STATUS_LABELS } from '../../utilities/orders';
+import type { OrderStatus, OrderStatusEvent } from '../../utilities/orders';
+
+interface OrderTimelineProps {
+  status: OrderStatus;
+  history: ReadonlyArray<OrderStatusEvent>;
+}
+
+function formatEventTime(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+// Fulfilment orders show every step, with the ones still ahead greyed out. An order that left
+// that path (cancelled, refunded) shows only what actually happened.
+export const OrderTimeline: React.FC<OrderTimelineProps> = ({ status, history }) => {
+  const onFulfilmentPath = FULFILMENT_STEPS.includes(status);
+  const steps: ReadonlyArray<OrderStatus> = onFulfilmentPath
+    ? FULFILMENT_STEPS
+    : history.map((event) => event.status);
+  const activeStep = steps.lastIndexOf(status);
+
+  return (
+    <Stepper orientation="vertical" activeStep={activeStep}>
+      {steps.map((step, index) => {
+        const event = [...history].reverse().find((entry) => entry.status === step);
+        return (
+          <Step key={`${step}-${index}`} completed={index <= activeStep} expanded>
+            <StepLabel error={!onFulfilmentPath && index === activeStep}>
+              {ORDER_STATUS_LABELS[step] ?? step}
+            </StepLabel>
+            <StepContent>
+              {event && (
+                <Typography variant="body2" color="text.secondary">
+                  {formatEventTime(event.occurredAt)}
+                  {event.note ? ` — ${event.note}` : ''}
+                </Typography>
+              )}
+            </StepContent>
+          </Step>
+        );
+      })}
+    </Stepper>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { IconButton, Tooltip } from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import FavoriteIcon from '@mui/icons-material/Favorite';
+import FavoriteBorderIcon from '@mui/icons-material/FavoriteBorder';
+import { selectIsInWishlist, toWishlistItem } from '../../redux/slices/wishlistSlice';
+import { toggleWishlistItem } from '../../redux/thunks/wishlistThunks';
+import type { ProductSummary } from '../../utilities/catalog';
+import type { AppDispatch, RootState } from '../../redux/store';
+
+interface WishlistButtonProps {
+  product: Pick<ProductSummary, 'id' | 'slug' | 'name' | 'thumbnailUrl' | 'price' | 'currency'>;
+  sx?: SxProps<Theme>;
+}
+
+export const WishlistButton: React.FC<WishlistButtonProps> = ({ product, sx }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const saved = useSelector((state: RootState) => selectIsInWishlist(state, product.id));
+  const label = saved ? 'Remove from wishlist' : 'Save to wishlist';
+
+  const handleClick = (e: React.MouseEvent): void => {
+    // Cards are links; the heart must not navigate
+    e.preventDefault();
+    e.stopPropagation();
+    dispatch(toggleWishlistItem(toWishlistItem(product)));
+  };
+
+  return (
+    <Tooltip title={label}>
+      <IconButton aria-label={label} aria-pressed={saved} onClick={handleClick} sx={sx}>
+        {saved ? <FavoriteIcon color="error" /> : <FavoriteBorderIcon />}
+      </IconButton>
+    </Tooltip>
+  );
+};
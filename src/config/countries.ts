@@ -0,0 +1,75 @@
+// Interfaces
+// Address rules for one shipping country; drives both the address form labels and validation
+export interface CountryMetadata {
+  // ISO 3166-1 alpha-2 code
+  code: string;
+  name: string;
+  regionLabel: string;
+  regionRequired: boolean;
+  postalCodeLabel: string;
+  // Anchored, case-insensitive; null when the country has no postal code format to check
+  postalCodePattern: RegExp | null;
+  postalCodeExample: string;
+}
+
+// Countries we ship to. Add a row here to open a new country in checkout and the address book.
+export const COUNTRIES: ReadonlyArray<CountryMetadata> = [
+  {
+    code: 'US',
+    name: 'United States',
+    regionLabel: 'State',
+    regionRequired: true,
+    postalCodeLabel: 'ZIP code',
+    postalCodePattern: /^\d{5}(-\d{4})?$/,
+    postalCodeExample: '94103',
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    regionLabel: 'Province',
+    regionRequired: true,
+    postalCodeLabel: 'Postal code',
+    postalCodePattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+    postalCodeExample: 'K1A 0B1',
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    regionLabel: 'County',
+    regionRequired: false,
+    postalCodeLabel: 'Postcode',
+    postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+    postalCodeExample: 'SW1A 1AA',
+  },
+  {
+    code: 'DE',
+    name: 'Germany',
+    regionLabel: 'State',
+    regionRequired: false,
+    postalCodeLabel: 'Postal code',
+    postalCodePattern: /^\d{5}$/,
+    postalCodeExample: '10115',
+  },
+  {
+    code: 'FR',
+    name: 'France',
+    regionLabel: 'Region',
+    regionRequired: false,
+    postalCodeLabel: 'Postal code',
+    postalCodePattern: /^\d{5}$/,
+    postalCodeExample: '75001',
+  },
+  {
+    code: 'AU',
+    name: 'Australia',
+    regionLabel: 'State / Territory',
+    regionRequired: true,
+    postalCodeLabel: 'Postcode',
+    postalCodePattern: /^\d{4}$/,
+    postalCodeExample: '2000',
+  },
+];
+
+export function getCountryMetadata(code: string): CountryMetadata | undefined {
+  return COUNTRIES.find((country) => country.code === code);
+}
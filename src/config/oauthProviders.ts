@@ -0,0 +1,54 @@
+// Enums
+export enum OAuthProvider {
+  GOOGLE = 'GOOGLE',
+  GITHUB = 'GITHUB',
+  MOCK_OIDC = 'MOCK_OIDC',
+}
+
+// Interfaces
+export interface OAuthProviderConfig {
+  provider: OAuthProvider;
+  label: string;
+  authorizationEndpoint: string;
+  clientId: string | undefined;
+  scope: string;
+  enabled: boolean;
+}
+
+// Client IDs come from the environment; a provider without one is not offered.
+// The mock provider points at a local OIDC server and only appears in development.
+export const OAUTH_PROVIDERS: ReadonlyArray<OAuthProviderConfig> = [
+  {
+    provider: OAuthProvider.GOOGLE,
+    label: 'Google',
+    authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+    clientId: import.meta.env.VITE_GOOGLE_CLIENT_ID,
+    scope: 'openid email profile',
+    enabled: true,
+  },
+  {
+    provider: OAuthProvider.GITHUB,
+    label: 'GitHub',
+    authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+    clientId: import.meta.env.VITE_GITHUB_CLIENT_ID,
+    scope: 'read:user user:email',
+    enabled: true,
+  },
+  {
+    provider: OAuthProvider.MOCK_OIDC,
+    label: 'Mock OIDC',
+    authorizationEndpoint:
+      import.meta.env.VITE_MOCK_OIDC_AUTHORIZATION_ENDPOINT || 'http://localhost:4011/authorize',
+    clientId: import.meta.env.VITE_MOCK_OIDC_CLIENT_ID || 'shopstore-dev',
+    scope: 'openid email profile',
+    enabled: import.meta.env.DEV,
+  },
+];
+
+export function getEnabledOAuthProviders(): ReadonlyArray<OAuthProviderConfig> {
+  return OAUTH_PROVIDERS.filter(({ enabled, clientId }) => enabled && Boolean(clientId));
+}
+
+export function getOAuthProviderConfig(provider: OAuthProvider): OAuthProviderConfig | undefined {
+  return OAUTH_PROVIDERS.find((config) => config.provider === provider);
+}
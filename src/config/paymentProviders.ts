@@ -0,0 +1,20 @@
+import { FakePaymentForm } from '../components/checkout/FakePaymentForm';
+import { tokenizeFakePayment } from '../utilities/fakePaymentProvider';
+import { PaymentProviderId } from '../utilities/payments';
+import type { PaymentProvider } from '../utilities/payments';
+
+// Each integration supplies a form and a tokenize function (see PaymentProvider).
+// The fake provider is for local development and never appears in production builds.
+export const PAYMENT_PROVIDERS: ReadonlyArray<PaymentProvider> = [
+  {
+    id: PaymentProviderId.FAKE,
+    label: 'Test card',
+    Form: FakePaymentForm,
+    tokenize: tokenizeFakePayment,
+    enabled: import.meta.env.DEV,
+  },
+];
+
+export function getEnabledPaymentProviders(): ReadonlyArray<PaymentProvider> {
+  return PAYMENT_PROVIDERS.filter(({ enabled }) => enabled);
+}
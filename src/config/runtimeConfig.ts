@@ -0,0 +1,62 @@
+// Interfaces
+// Deployment-specific settings, read at startup so one build can serve every environment
+export interface RuntimeConfig {
+  graphqlEndpoint: string;
+  // Optional lightweight endpoint for health probes; the GraphQL endpoint is probed otherwise
+  healthCheckEndpoint: string | null;
+  // Absolute ws:// or wss:// URL for GraphQL subscriptions (graphql-ws protocol)
+  subscriptionEndpoint: string;
+  // Inactivity policy for protected pages; null keeps the IdleTimeout defaults
+  idleMinutes: number | null;
+  idleCountdownSeconds: number | null;
+  // How long before its exp claim the access token is renewed; null keeps the default
+  tokenRenewalMarginSeconds: number | null;
+}
+
+// Constants
+// Served by the BFF on the app's own origin
+const DEFAULT_GRAPHQL_ENDPOINT = '/graphql' as const;
+
+// A relative endpoint resolves against the app's origin; http(s) becomes ws(s)
+function toWebSocketUrl(endpoint: string): string {
+  const url = new URL(endpoint, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+// Accepts numbers from config.js and numeric strings from env vars
+function toPositiveNumber(value: number | string | undefined): number | null {
+  const number = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number) && number > 0
+    ? number
+    : null;
+}
+
+// public/config.js (replaced per deployment) sets window.__APP_CONFIG__ before the app loads.
+// Build-time env vars remain a fallback for local development.
+function loadRuntimeConfig(): RuntimeConfig {
+  const config = window.__APP_CONFIG__ ?? {};
+
+  const graphqlEndpoint =
+    config.graphqlEndpoint || import.meta.env.VITE_API_URL || DEFAULT_GRAPHQL_ENDPOINT;
+
+  return {
+    graphqlEndpoint,
+    healthCheckEndpoint:
+      config.healthCheckEndpoint || import.meta.env.VITE_HEALTH_CHECK_ENDPOINT || null,
+    // Subscriptions share the GraphQL endpoint unless configured separately
+    subscriptionEndpoint: toWebSocketUrl(
+      config.subscriptionEndpoint || import.meta.env.VITE_SUBSCRIPTION_URL || graphqlEndpoint
+    ),
+    idleMinutes:
+      toPositiveNumber(config.idleMinutes) ?? toPositiveNumber(import.meta.env.VITE_IDLE_MINUTES),
+    idleCountdownSeconds:
+      toPositiveNumber(config.idleCountdownSeconds) ??
+      toPositiveNumber(import.meta.env.VITE_IDLE_COUNTDOWN_SECONDS),
+    tokenRenewalMarginSeconds:
+      toPositiveNumber(config.tokenRenewalMarginSeconds) ??
+      toPositiveNumber(import.meta.env.VITE_TOKEN_RENEWAL_MARGIN_SECONDS),
+  };
+}
+
+export const runtimeConfig: Readonly<RuntimeConfig> = Object.freeze(loadRuntimeConfig());
@@ -1,5 +1,19 @@
 import { gql } from '@apollo/client';
 
+// Fields every session-establishing operation returns for the auth slice's User
+export const USER_FIELDS = gql`
+  fragment UserFields on User {
+    id
+    email
+    name
+    roles
+    permissions
+    mfaEnabled
+    pendingEmail
+    createdAt
+  }
+`;
+
 export const REGISTER_MUTATION = gql`
   mutation Register($email: String!, $password: String!, $name: String!) {
     register(email: $email, password: $password, name: $name) {
@@ -15,14 +29,14 @@ export const REGISTER_MUTATION = gql`
 `;
 
 export const LOGIN_MUTATION = gql`
+  ${USER_FIELDS}
   mutation Login($email: String!, $password: String!) {
     login(email: $email, password: $password) {
       accessToken
+      mfaRequired
+      challengeToken
       user {
-        id
-        email
-        name
-        createdAt
+        ...UserFields
       }
     }
   }
@@ -35,12 +49,10 @@ export const LOGOUT_MUTATION = gql`
 `;
 
 export const ME_QUERY = gql`
+  ${USER_FIELDS}
   query Me {
     me {
-      id
-      email
-      name
-      createdAt
+      ...UserFields
     }
   }
 `;
@@ -68,3 +80,530 @@ export const RESEND_VERIFICATION_EMAIL_MUTATION = gql`
     resendVerificationEmail(email: $email)
   }
 `;
+
+export const REFRESH_TOKEN_MUTATION = gql`
+  mutation RefreshToken {
+    refreshToken {
+      accessToken
+    }
+  }
+`;
+
+export const VERIFY_MFA_MUTATION = gql`
+  ${USER_FIELDS}
+  mutation VerifyMfa($challengeToken: String!, $code: String!, $method: MfaMethod!) {
+    verifyMfa(challengeToken: $challengeToken, code: $code, method: $method) {
+      accessToken
+      user {
+        ...UserFields
+      }
+    }
+  }
+`;
+
+export const ENROLL_TOTP_MUTATION = gql`
+  mutation EnrollTotp {
+    enrollTotp {
+      secret
+      otpauthUrl
+      qrCodeDataUrl
+    }
+  }
+`;
+
+export const CONFIRM_TOTP_ENROLLMENT_MUTATION = gql`
+  mutation ConfirmTotpEnrollment($code: String!) {
+    confirmTotpEnrollment(code: $code) {
+      recoveryCodes
+    }
+  }
+`;
+
+export const REGENERATE_RECOVERY_CODES_MUTATION = gql`
+  mutation RegenerateRecoveryCodes($code: String!) {
+    regenerateRecoveryCodes(code: $code) {
+      recoveryCodes
+    }
+  }
+`;
+
+export const DISABLE_TOTP_MUTATION = gql`
+  mutation DisableTotp($code: String!) {
+    disableTotp(code: $code)
+  }
+`;
+
+export const OAUTH_LOGIN_MUTATION = gql`
+  ${USER_FIELDS}
+  mutation OAuthLogin(
+    $provider: OAuthProvider!
+    $code: String!
+    $codeVerifier: String!
+    $redirectUri: String!
+  ) {
+    oauthLogin(
+      provider: $provider
+      code: $code
+      codeVerifier: $codeVerifier
+      redirectUri: $redirectUri
+    ) {
+      accessToken
+      mfaRequired
+      challengeToken
+      linkRequired
+      linkToken
+      email
+      user {
+        ...UserFields
+      }
+    }
+  }
+`;
+
+export const LINK_OAUTH_ACCOUNT_MUTATION = gql`
+  ${USER_FIELDS}
+  mutation LinkOAuthAccount($linkToken: String!, $password: String!) {
+    linkOAuthAccount(linkToken: $linkToken, password: $password) {
+      accessToken
+      user {
+        ...UserFields
+      }
+    }
+  }
+`;
+
+export const MY_SESSIONS_QUERY = gql`
+  query MySessions {
+    mySessions {
+      id
+      device
+      browser
+      ipAddress
+      lastSeenAt
+      createdAt
+      current
+    }
+  }
+`;
+
+export const REVOKE_SESSION_MUTATION = gql`
+  mutation RevokeSession($sessionId: ID!) {
+    revokeSession(sessionId: $sessionId)
+  }
+`;
+
+export const REVOKE_OTHER_SESSIONS_MUTATION = gql`
+  mutation RevokeOtherSessions {
+    revokeOtherSessions
+  }
+`;
+
+export const UPDATE_PROFILE_MUTATION = gql`
+  ${USER_FIELDS}
+  mutation UpdateProfile($name: String!) {
+    updateProfile(name: $name) {
+      ...UserFields
+    }
+  }
+`;
+
+export const CHANGE_PASSWORD_MUTATION = gql`
+  mutation ChangePassword($currentPassword: String!, $newPassword: String!) {
+    changePassword(currentPassword: $currentPassword, newPassword: $newPassword)
+  }
+`;
+
+export const REAUTHENTICATE_MUTATION = gql`
+  mutation Reauthenticate($password: String!) {
+    reauthenticate(password: $password) {
+      reauthToken
+      expiresAt
+    }
+  }
+`;
+
+export const CHANGE_EMAIL_MUTATION = gql`
+  mutation ChangeEmail($newEmail: String!, $reauthToken: String!) {
+    changeEmail(newEmail: $newEmail, reauthToken: $reauthToken)
+  }
+`;
+
+export const DELETE_ACCOUNT_MUTATION = gql`
+  mutation DeleteAccount($reauthToken: String!) {
+    deleteAccount(reauthToken: $reauthToken)
+  }
+`;
+
+// Fields a product card needs; the detail page reads these from the cache while it loads
+export const PRODUCT_CARD_FIELDS = gql`
+  fragment ProductCardFields on Product {
+    id
+    slug
+    name
+    price
+    compareAtPrice
+    currency
+    thumbnailUrl
+    inStock
+    category {
+      id
+      slug
+      name
+    }
+  }
+`;
+
+export const PRODUCTS_QUERY = gql`
+  ${PRODUCT_CARD_FIELDS}
+  query Products($first: Int!, $after: String, $filter: ProductFilterInput, $sort: ProductSort) {
+    products(first: $first, after: $after, filter: $filter, sort: $sort) {
+      edges {
+        cursor
+        node {
+          ...ProductCardFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+`;
+
+export const CATEGORIES_QUERY = gql`
+  query Categories {
+    categories {
+      id
+      slug
+      name
+    }
+  }
+`;
+
+// Type-ahead for the Navbar search box; deliberately small so it can run on every pause in typing
+export const SEARCH_SUGGESTIONS_QUERY = gql`
+  query SearchSuggestions($query: String!, $first: Int!) {
+    searchSuggestions(query: $query, first: $first) {
+      products {
+        id
+        slug
+        name
+        price
+        currency
+        thumbnailUrl
+      }
+      categories {
+        id
+        slug
+        name
+      }
+    }
+  }
+`;
+
+export const PRODUCT_QUERY = gql`
+  ${PRODUCT_CARD_FIELDS}
+  query Product($slug: String!) {
+    product(slug: $slug) {
+      ...ProductCardFields
+      description
+      images {
+        id
+        url
+        alt
+      }
+      categoryPath {
+        id
+        slug
+        name
+      }
+      variants {
+        id
+        sku
+        size
+        color
+        price
+        compareAtPrice
+        inStock
+      }
+    }
+  }
+`;
+
+// Server-side cart lines carry the current price, so a saved cart is always re-priced
+export const CART_FIELDS = gql`
+  fragment CartFields on Cart {
+    id
+    items {
+      productId
+      slug
+      variantId
+      name
+      variantLabel
+      unitPrice
+      currency
+      thumbnailUrl
+      quantity
+    }
+  }
+`;
+
+export const MY_CART_QUERY = gql`
+  ${CART_FIELDS}
+  query MyCart {
+    myCart {
+      ...CartFields
+    }
+  }
+`;
+
+export const SAVE_CART_MUTATION = gql`
+  ${CART_FIELDS}
+  mutation SaveCart($items: [CartItemInput!]!) {
+    saveCart(items: $items) {
+      ...CartFields
+    }
+  }
+`;
+
+export const WISHLIST_FIELDS = gql`
+  fragment WishlistFields on Wishlist {
+    id
+    items {
+      productId
+      slug
+      name
+      thumbnailUrl
+      savedPrice
+      currency
+      addedAt
+    }
+  }
+`;
+
+export const MY_WISHLIST_QUERY = gql`
+  ${WISHLIST_FIELDS}
+  query MyWishlist {
+    myWishlist {
+      ...WishlistFields
+    }
+  }
+`;
+
+export const SAVE_WISHLIST_MUTATION = gql`
+  ${WISHLIST_FIELDS}
+  mutation SaveWishlist($items: [WishlistItemInput!]!) {
+    saveWishlist(items: $items) {
+      ...WishlistFields
+    }
+  }
+`;
+
+// Current price, stock and variants of saved products, for guests and signed-in users alike.
+// Products that no longer exist are left out of the result.
+export const WISHLIST_PRODUCTS_QUERY = gql`
+  ${PRODUCT_CARD_FIELDS}
+  query WishlistProducts($slugs: [String!]!) {
+    productsBySlugs(slugs: $slugs) {
+      ...ProductCardFields
+      variants {
+        id
+        sku
+        size
+        color
+        price
+        compareAtPrice
+        inStock
+      }
+    }
+  }
+`;
+
+export const ADDRESS_FIELDS = gql`
+  fragment AddressFields on Address {
+    id
+    fullName
+    line1
+    line2
+    city
+    region
+    postalCode
+    country
+    phone
+    isDefaultShipping
+    isDefaultBilling
+  }
+`;
+
+export const MY_ADDRESSES_QUERY = gql`
+  ${ADDRESS_FIELDS}
+  query MyAddresses {
+    myAddresses {
+      ...AddressFields
+    }
+  }
+`;
+
+export const CREATE_ADDRESS_MUTATION = gql`
+  ${ADDRESS_FIELDS}
+  mutation CreateAddress($input: AddressInput!) {
+    createAddress(input: $input) {
+      ...AddressFields
+    }
+  }
+`;
+
+export const UPDATE_ADDRESS_MUTATION = gql`
+  ${ADDRESS_FIELDS}
+  mutation UpdateAddress($id: ID!, $input: AddressInput!) {
+    updateAddress(id: $id, input: $input) {
+      ...AddressFields
+    }
+  }
+`;
+
+export const DELETE_ADDRESS_MUTATION = gql`
+  mutation DeleteAddress($id: ID!) {
+    deleteAddress(id: $id)
+  }
+`;
+
+// Moving a default clears the flag on the previous default, so the whole list is returned
+export const SET_DEFAULT_ADDRESS_MUTATION = gql`
+  ${ADDRESS_FIELDS}
+  mutation SetDefaultAddress($id: ID!, $kind: AddressDefault!) {
+    setDefaultAddress(id: $id, kind: $kind) {
+      ...AddressFields
+    }
+  }
+`;
+
+export const DELIVERY_OPTIONS_QUERY = gql`
+  query DeliveryOptions($address: AddressInput!, $items: [CartItemInput!]!) {
+    deliveryOptions(address: $address, items: $items) {
+      id
+      name
+      description
+      cost
+      currency
+      estimatedDays
+    }
+  }
+`;
+
+// The idempotency key makes retries and double submits return the first order instead of
+// creating another
+export const PLACE_ORDER_MUTATION = gql`
+  mutation PlaceOrder($input: PlaceOrderInput!) {
+    placeOrder(input: $input) {
+      id
+      number
+      status
+      email
+      total
+      currency
+    }
+  }
+`;
+
+export const ORDER_SUMMARY_FIELDS = gql`
+  fragment OrderSummaryFields on Order {
+    id
+    number
+    status
+    placedAt
+    total
+    currency
+    itemCount
+  }
+`;
+
+export const MY_ORDERS_QUERY = gql`
+  ${ORDER_SUMMARY_FIELDS}
+  query MyOrders($first: Int!, $after: String, $status: OrderStatus) {
+    myOrders(first: $first, after: $after, status: $status) {
+      edges {
+        cursor
+        node {
+          ...OrderSummaryFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+`;
+
+export const ORDER_QUERY = gql`
+  ${ORDER_SUMMARY_FIELDS}
+  query Order($id: ID!) {
+    order(id: $id) {
+      ...OrderSummaryFields
+      email
+      lines {
+        id
+        productId
+        slug
+        variantId
+        name
+        variantLabel
+        unitPrice
+        currency
+        thumbnailUrl
+        quantity
+      }
+      subtotal
+      deliveryCost
+      deliveryMethod
+      shippingAddress {
+        fullName
+        line1
+        line2
+        city
+        region
+        postalCode
+        country
+        phone
+      }
+      statusHistory {
+        status
+        occurredAt
+        note
+      }
+      trackingUrl
+    }
+  }
+`;
+
+// Invoice links are signed and short-lived, so one is requested per download
+export const ORDER_INVOICE_QUERY = gql`
+  query OrderInvoice($orderId: ID!) {
+    orderInvoice(orderId: $orderId) {
+      url
+      expiresAt
+    }
+  }
+`;
+
+// Pushed for every status change on the signed-in user's orders. The payload is keyed by id, so
+// it updates the cached order in the list and detail views as well.
+export const ORDER_STATUS_CHANGED_SUBSCRIPTION = gql`
+  subscription OrderStatusChanged {
+    orderStatusChanged {
+      id
+      number
+      status
+      statusHistory {
+        status
+        occurredAt
+        note
+      }
+      trackingUrl
+    }
+  }
+`;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Link as RouterLink, Outlet, useLocation } from 'react-router-dom';
+import { Box, Paper, Tab, Tabs, Typography } from '@mui/material';
+
+// Interfaces
+interface AccountTab {
+  path: string;
+  label: string;
+}
+
+export const ACCOUNT_TABS: ReadonlyArray<AccountTab> = [
+  { path: 'profile', label: 'Profile' },
+  { path: 'orders', label: 'Orders' },
+  { path: 'addresses', label: 'Addresses' },
+  { path: 'password', label: 'Password' },
+  { path: 'email', label: 'Email' },
+  { path: 'security', label: 'Two-Factor' },
+  { path: 'sessions', label: 'Sessions' },
+  { path: 'delete', label: 'Delete Account' },
+];
+
+export const Account: React.FC = () => {
+  const location = useLocation();
+  const activeTab = ACCOUNT_TABS.find(({ path }) =>
+    location.pathname.startsWith(`/account/${path}`)
+  );
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        Account Settings
+      </Typography>
+      <Paper>
+        <Tabs
+          value={activeTab?.path ?? false}
+          variant="scrollable"
+          scrollButtons="auto"
+          sx={{ borderBottom: 1, borderColor: 'divider' }}
+        >
+          {ACCOUNT_TABS.map(({ path, label }) => (
+            <Tab key={path} value={path} label={label} component={RouterLink} to={path} />
+          ))}
+        </Tabs>
+        <Box sx={{ p: 3 }}>
+          <Outlet />
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
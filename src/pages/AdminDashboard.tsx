@@ -0,0 +1,31 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { Box, Typography, Paper } from '@mui/material';
+import { selectCurrentUser, Permission, UserRole } from '../redux/slices/authSlice';
+import type { AccessRequirements } from '../redux/slices/authSlice';
+
+// Constants
+export const ADMIN_PATH = '/admin' as const;
+// Guards the route and decides who sees links to it, so nobody is shown a link that ends in 403
+export const ADMIN_ACCESS: AccessRequirements = {
+  requiredRoles: [UserRole.ADMIN, UserRole.STAFF],
+  requiredPermissions: [Permission.VIEW_ADMIN_DASHBOARD],
+};
+
+export const AdminDashboard: React.FC = () => {
+  const user = useSelector(selectCurrentUser);
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          Admin Dashboard
+        </Typography>
+        <Typography variant="body1">Signed in as: {user?.email}</Typography>
+        <Typography variant="body2" sx={{ mt: 2 }}>
+          Roles: {user?.roles.join(', ')}
+        </Typography>
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,322 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { useMutation, useQuery } from '@apollo/client';
+import { Box, Button, Paper, Step, StepLabel, Stepper, Typography } from '@mui/material';
+import {
+  DELIVERY_OPTIONS_QUERY,
+  MY_ADDRESSES_QUERY,
+  PLACE_ORDER_MUTATION,
+} from '../graphql/operations';
+import { ShippingStep, NEW_ADDRESS } from '../components/checkout/ShippingStep';
+import { DeliveryStep } from '../components/checkout/DeliveryStep';
+import { PaymentStep } from '../components/checkout/PaymentStep';
+import { ReviewStep } from '../components/checkout/ReviewStep';
+import { OrderConfirmation } from '../components/checkout/OrderConfirmation';
+import { getEnabledPaymentProviders } from '../config/paymentProviders';
+import { selectCurrentUser, selectIsAuthenticated } from '../redux/slices/authSlice';
+import { clearCart, selectCartItems, selectCartTotals } from '../redux/slices/cartSlice';
+import { normalizeError } from '../apollo/errorNormalization';
+import {
+  getDefaultAddress,
+  toAddressInput,
+  validateAddress,
+  AddressDefault,
+  EMPTY_ADDRESS,
+} from '../utilities/addresses';
+import type { Address, AddressInput } from '../utilities/addresses';
+import {
+  createIdempotencyKey,
+  isValidEmail,
+  CheckoutStep,
+  CHECKOUT_STEPS,
+  CHECKOUT_STEP_LABELS,
+} from '../utilities/checkout';
+import type { DeliveryOption, PlacedOrder } from '../utilities/checkout';
+import type { PaymentDetails, PaymentProviderId, PaymentToken } from '../utilities/payments';
+import type { AppDispatch } from '../redux/store';
+
+const PAYMENT_PROVIDERS = getEnabledPaymentProviders();
+
+export const Checkout: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const isAuthenticated = useSelector(selectIsAuthenticated);
+  const user = useSelector(selectCurrentUser);
+  const items = useSelector(selectCartItems);
+  const { subtotal, currency } = useSelector(selectCartTotals);
+
+  const [step, setStep] = useState<CheckoutStep>(CheckoutStep.SHIPPING);
+  const [guestEmail, setGuestEmail] = useState('');
+  const [selectedAddressId, setSelectedAddressId] = useState<string>(NEW_ADDRESS);
+  const [newAddress, setNewAddress] = useState<AddressInput>(EMPTY_ADDRESS);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [deliveryOptionId, setDeliveryOptionId] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<PaymentProviderId | null>(
+    PAYMENT_PROVIDERS[0]?.id ?? null
+  );
+  const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
+  const [paymentToken, setPaymentToken] = useState<PaymentToken | null>(null);
+  const [paymentError, setPaymentError] = useState('');
+  const [tokenizing, setTokenizing] = useState(false);
+  const [orderError, setOrderError] = useState('');
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  const [idempotencyKey, setIdempotencyKey] = useState(createIdempotencyKey);
+  // Blocks a second submit before the re-render that disables the button
+  const placingRef = useRef(false);
+
+  // The address book's cached list (see AddressBook), shared with the order detail page
+  const { data: addressData } = useQuery(MY_ADDRESSES_QUERY, { skip: !isAuthenticated });
+  const savedAddresses: ReadonlyArray<Address> = addressData?.myAddresses ?? [];
+
+  // Preselect the default shipping address once saved addresses arrive, keeping the shopper's
+  // choice if the list is refreshed later
+  useEffect(() => {
+    const addresses: ReadonlyArray<Address> = addressData?.myAddresses ?? [];
+    const preselected = getDefaultAddress(addresses, AddressDefault.SHIPPING);
+    setSelectedAddressId((current) =>
+      addresses.some(({ id }) => id === current) ? current : (preselected?.id ?? NEW_ADDRESS)
+    );
+  }, [addressData]);
+
+  const savedAddress = savedAddresses.find(({ id }) => id === selectedAddressId);
+  const shippingAddress = toAddressInput(savedAddress ?? newAddress);
+  const email = isAuthenticated ? (user?.email ?? '') : guestEmail.trim();
+  const lineItems = items.map(({ productId, variantId, quantity }) => ({
+    productId,
+    variantId,
+    quantity,
+  }));
+
+  const {
+    data: deliveryData,
+    loading: deliveryLoading,
+    error: deliveryError,
+  } = useQuery(DELIVERY_OPTIONS_QUERY, {
+    variables: { address: shippingAddress, items: lineItems },
+    skip: step === CheckoutStep.SHIPPING || lineItems.length === 0,
+    fetchPolicy: 'cache-and-network',
+  });
+  const deliveryOptions: ReadonlyArray<DeliveryOption> = deliveryData?.deliveryOptions ?? [];
+  const deliveryOption = deliveryOptions.find(({ id }) => id === deliveryOptionId);
+
+  // A new key whenever what is being ordered or how it is paid changes (e.g. a new card after a
+  // decline); double submits of the same attempt reuse it
+  const orderSignature = JSON.stringify([
+    lineItems,
+    shippingAddress,
+    deliveryOptionId,
+    email,
+    paymentToken?.token ?? null,
+  ]);
+  useEffect(() => {
+    setIdempotencyKey(createIdempotencyKey());
+  }, [orderSignature]);
+
+  // Keep a valid choice selected when the options change with the address or cart
+  useEffect(() => {
+    const options: ReadonlyArray<DeliveryOption> = deliveryData?.deliveryOptions ?? [];
+    setDeliveryOptionId((current) =>
+      options.some(({ id }) => id === current) ? current : (options[0]?.id ?? null)
+    );
+  }, [deliveryData]);
+
+  // Cached order lists don't know about the new order; drop them so they reload when opened
+  const [placeOrder, { loading: placing }] = useMutation(PLACE_ORDER_MUTATION, {
+    update: (cache) => {
+      cache.evict({ fieldName: 'myOrders' });
+      cache.gc();
+    },
+  });
+
+  // Stable so the provider form's change effect does not loop
+  const handlePaymentDetailsChange = useCallback((details: PaymentDetails | null): void => {
+    setPaymentDetails(details);
+    setPaymentToken(null);
+  }, []);
+
+  const goTo = (target: CheckoutStep): void => {
+    setStep(target);
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleShippingNext = (): void => {
+    const errors: Record<string, string> = savedAddress ? {} : validateAddress(newAddress);
+    if (!isAuthenticated && !isValidEmail(guestEmail)) {
+      errors.email = 'Enter a valid email address';
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) {
+      goTo(CheckoutStep.DELIVERY);
+    }
+  };
+
+  const handlePaymentNext = async (): Promise<void> => {
+    const provider = PAYMENT_PROVIDERS.find(({ id }) => id === providerId);
+    if (!provider || !paymentDetails) {
+      setPaymentError('Complete your payment details to continue');
+      return;
+    }
+
+    setPaymentError('');
+    setTokenizing(true);
+    try {
+      setPaymentToken(await provider.tokenize(paymentDetails));
+      goTo(CheckoutStep.REVIEW);
+    } catch (err) {
+      console.error('Payment tokenization failed:', err);
+      setPaymentError(err instanceof Error ? err.message : 'Payment method was declined');
+    } finally {
+      setTokenizing(false);
+    }
+  };
+
+  const handlePlaceOrder = async (): Promise<void> => {
+    if (placingRef.current || !deliveryOptionId || !paymentToken) {
+      return;
+    }
+
+    placingRef.current = true;
+    setOrderError('');
+    try {
+      const { data } = await placeOrder({
+        variables: {
+          input: {
+            idempotencyKey,
+            email,
+            items: lineItems,
+            shippingAddress,
+            deliveryOptionId,
+            paymentToken: { provider: paymentToken.provider, token: paymentToken.token },
+          },
+        },
+      });
+      // The server empties the stored cart as part of placing the order
+      dispatch(clearCart());
+      setPlacedOrder(data.placeOrder);
+    } catch (err) {
+      console.error('Place order failed:', err);
+      setOrderError(normalizeError(err, 'Your order could not be placed').message);
+    } finally {
+      placingRef.current = false;
+    }
+  };
+
+  if (placedOrder) {
+    return (
+      <Box sx={{ my: 4 }}>
+        <OrderConfirmation
+          order={placedOrder}
+          isGuest={!isAuthenticated}
+          customerName={shippingAddress.fullName}
+        />
+      </Box>
+    );
+  }
+
+  if (items.length === 0 || !currency) {
+    return (
+      <Box sx={{ my: 6, textAlign: 'center' }}>
+        <Typography variant="h5" gutterBottom>
+          Your cart is empty
+        </Typography>
+        <Button component={RouterLink} to="/products" variant="contained">
+          Browse products
+        </Button>
+      </Box>
+    );
+  }
+
+  const stepIndex = CHECKOUT_STEPS.indexOf(step);
+
+  return (
+    <Box sx={{ maxWidth: 720, mx: 'auto', my: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        Checkout
+      </Typography>
+      <Stepper activeStep={stepIndex} sx={{ mb: 3 }}>
+        {CHECKOUT_STEPS.map((checkoutStep) => (
+          <Step key={checkoutStep}>
+            <StepLabel>{CHECKOUT_STEP_LABELS[checkoutStep]}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      <Paper variant="outlined" sx={{ p: 3 }}>
+        {step === CheckoutStep.SHIPPING && (
+          <ShippingStep
+            isGuest={!isAuthenticated}
+            email={guestEmail}
+            onEmailChange={setGuestEmail}
+            savedAddresses={savedAddresses}
+            selectedAddressId={selectedAddressId}
+            onSelectAddress={setSelectedAddressId}
+            address={newAddress}
+            onAddressChange={setNewAddress}
+            fieldErrors={fieldErrors}
+          />
+        )}
+        {step === CheckoutStep.DELIVERY && (
+          <DeliveryStep
+            options={deliveryOptions}
+            loading={deliveryLoading}
+            errorMessage={deliveryError?.message}
+            selectedOptionId={deliveryOptionId}
+            onSelect={setDeliveryOptionId}
+          />
+        )}
+        {step === CheckoutStep.PAYMENT && (
+          <PaymentStep
+            providers={PAYMENT_PROVIDERS}
+            selectedProviderId={providerId}
+            onSelectProvider={setProviderId}
+            onDetailsChange={handlePaymentDetailsChange}
+            errorMessage={paymentError}
+            disabled={tokenizing}
+          />
+        )}
+        {step === CheckoutStep.REVIEW && deliveryOption && paymentToken && (
+          <ReviewStep
+            items={items}
+            email={email}
+            address={shippingAddress}
+            deliveryOption={deliveryOption}
+            payment={paymentToken}
+            subtotal={subtotal}
+            currency={currency}
+            placing={placing}
+            errorMessage={orderError}
+            onPlaceOrder={handlePlaceOrder}
+          />
+        )}
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+          <Button
+            disabled={stepIndex === 0 || placing || tokenizing}
+            onClick={() => goTo(CHECKOUT_STEPS[stepIndex - 1])}
+          >
+            Back
+          </Button>
+          {step === CheckoutStep.SHIPPING && (
+            <Button variant="contained" onClick={handleShippingNext}>
+              Continue to delivery
+            </Button>
+          )}
+          {step === CheckoutStep.DELIVERY && (
+            <Button
+              variant="contained"
+              onClick={() => goTo(CheckoutStep.PAYMENT)}
+              disabled={!deliveryOption}
+            >
+              Continue to payment
+            </Button>
+          )}
+          {step === CheckoutStep.PAYMENT && (
+            <Button variant="contained" onClick={handlePaymentNext} disabled={tokenizing}>
+              {tokenizing ? 'Verifying...' : 'Review order'}
+            </Button>
+          )}
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Typography, Paper, Button } from '@mui/material';
+import BlockIcon from '@mui/icons-material/Block';
+
+export const Forbidden: React.FC = () => {
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Paper sx={{ p: 4, textAlign: 'center' }}>
+        <BlockIcon sx={{ fontSize: 80, color: 'error.main', mb: 2 }} />
+        <Typography variant="h4" gutterBottom>
+          403 - Access Denied
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          You don't have permission to view this page.
+        </Typography>
+        <Button variant="contained" component={RouterLink} to="/">
+          Back to Home
+        </Button>
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+import { useQuery } from '@apollo/client';
+import {
+  Alert,
+  Box,
+  Breadcrumbs,
+  Button,
+  Chip,
+  CircularProgress,
+  Grid,
+  Link as MuiLink,
+  Snackbar,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PRODUCT_QUERY } from '../graphql/operations';
+import { ProductGallery } from '../components/catalog/ProductGallery';
+import { VariantSelector } from '../components/catalog/VariantSelector';
+import type { VariantSelection } from '../components/catalog/VariantSelector';
+import { WishlistButton } from '../components/wishlist/WishlistButton';
+import { MAX_LINE_QUANTITY } from '../redux/slices/cartSlice';
+import { addToCart } from '../redux/thunks/cartThunks';
+import {
+  findVariant,
+  formatPrice,
+  getVariantLabel,
+  getVariantOptionValues,
+  CatalogParam,
+  VariantOption,
+} from '../utilities/catalog';
+import type { ProductDetail as Product, ProductImage, ProductVariant } from '../utilities/catalog';
+import type { AppDispatch } from '../redux/store';
+
+// Options with a single value need no choice, so they start selected
+function getInitialSelection(variants: ReadonlyArray<ProductVariant>): VariantSelection {
+  const sizes = getVariantOptionValues(variants, VariantOption.SIZE);
+  const colors = getVariantOptionValues(variants, VariantOption.COLOR);
+  return {
+    size: sizes.length === 1 ? sizes[0] : null,
+    color: colors.length === 1 ? colors[0] : null,
+  };
+}
+
+function isSelectionComplete(
+  variants: ReadonlyArray<ProductVariant>,
+  selection: VariantSelection
+): boolean {
+  return Object.values(VariantOption).every(
+    (option) => getVariantOptionValues(variants, option).length === 0 || selection[option] !== null
+  );
+}
+
+export const ProductDetail: React.FC = () => {
+  const { slug = '' } = useParams();
+  const dispatch = useDispatch<AppDispatch>();
+
+  // Partial data lets a product already cached by the catalog render before the rest loads
+  const { data, loading, error } = useQuery(PRODUCT_QUERY, {
+    variables: { slug },
+    returnPartialData: true,
+  });
+  const product: Partial<Product> | undefined = data?.product ?? undefined;
+  const variants: ReadonlyArray<ProductVariant> = product?.variants ?? [];
+
+  const [selection, setSelection] = useState<VariantSelection>({ size: null, color: null });
+  const [quantity, setQuantity] = useState(1);
+  const [addedMessage, setAddedMessage] = useState('');
+
+  useEffect(() => {
+    setSelection(getInitialSelection(product?.variants ?? []));
+    setQuantity(1);
+  }, [product?.variants]);
+
+  if (!product?.name) {
+    if (loading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+
+    return (
+      <Box sx={{ mt: 4 }}>
+        <Alert severity={error ? 'error' : 'info'}>
+          {error ? error.message : 'This product could not be found.'}
+        </Alert>
+        <Button component={RouterLink} to="/products" sx={{ mt: 2 }}>
+          Back to products
+        </Button>
+      </Box>
+    );
+  }
+
+  // Catalog-cached partial data has no variants field; until the full product arrives it is
+  // unknown whether a variant must be chosen
+  const detailsLoaded = product.variants !== undefined;
+  const hasVariants = variants.length > 0;
+  const selectionComplete = isSelectionComplete(variants, selection);
+  const selectedVariant = hasVariants
+    ? findVariant(variants, selection.size, selection.color)
+    : null;
+  const price = selectedVariant?.price ?? product.price ?? 0;
+  const compareAtPrice = selectedVariant ? selectedVariant.compareAtPrice : product.compareAtPrice;
+  const currency = product.currency ?? 'USD';
+  const inStock = selectedVariant ? selectedVariant.inStock : Boolean(product.inStock);
+  const canAddToCart = detailsLoaded && inStock && (!hasVariants || selectedVariant !== null);
+
+  const images: ReadonlyArray<ProductImage> =
+    product.images ??
+    (product.thumbnailUrl ? [{ id: 'thumbnail', url: product.thumbnailUrl, alt: null }] : []);
+  const categoryPath = product.categoryPath ?? (product.category ? [product.category] : []);
+
+  const handleAddToCart = (): void => {
+    if (!canAddToCart || !product.id) {
+      return;
+    }
+
+    dispatch(
+      addToCart({
+        productId: product.id,
+        slug,
+        variantId: selectedVariant?.id ?? null,
+        name: product.name ?? '',
+        variantLabel: selectedVariant ? getVariantLabel(selectedVariant) : null,
+        unitPrice: price,
+        currency,
+        thumbnailUrl: product.thumbnailUrl ?? null,
+        quantity,
+      })
+    );
+    setAddedMessage(`Added ${quantity} × ${product.name} to your cart`);
+  };
+
+  const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = Math.trunc(Number(e.target.value));
+    setQuantity(Math.min(Math.max(value || 1, 1), MAX_LINE_QUANTITY));
+  };
+
+  return (
+    <Box sx={{ mt: 4, mb: 4 }}>
+      <Breadcrumbs sx={{ mb: 3 }}>
+        <MuiLink component={RouterLink} to="/products" underline="hover" color="inherit">
+          Products
+        </MuiLink>
+        {categoryPath.map((category) => (
+          <MuiLink
+            key={category.id}
+            component={RouterLink}
+            to={`/products?${CatalogParam.CATEGORY}=${encodeURIComponent(category.slug)}`}
+            underline="hover"
+            color="inherit"
+          >
+            {category.name}
+          </MuiLink>
+        ))}
+        <Typography color="text.primary">{product.name}</Typography>
+      </Breadcrumbs>
+
+      <Grid container spacing={4}>
+        <Grid item xs={12} md={6}>
+          <ProductGallery images={images} productName={product.name} />
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+            <Typography variant="h4" gutterBottom sx={{ flexGrow: 1 }}>
+              {product.name}
+            </Typography>
+            {product.id && (
+              <WishlistButton
+                product={{
+                  id: product.id,
+                  slug,
+                  name: product.name,
+                  thumbnailUrl: product.thumbnailUrl ?? null,
+                  price: product.price ?? price,
+                  currency,
+                }}
+              />
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, mb: 1 }}>
+            <Typography variant="h5">{formatPrice(price, currency)}</Typography>
+            {compareAtPrice != null && compareAtPrice > price && (
+              <Typography color="text.secondary" sx={{ textDecoration: 'line-through' }}>
+                {formatPrice(compareAtPrice, currency)}
+              </Typography>
+            )}
+          </Box>
+
+          <Chip
+            label={inStock ? 'In stock' : 'Out of stock'}
+            color={inStock ? 'success' : 'default'}
+            size="small"
+            sx={{ mb: 3 }}
+          />
+
+          {hasVariants && (
+            <VariantSelector variants={variants} selection={selection} onChange={setSelection} />
+          )}
+
+          {hasVariants && selectionComplete && !selectedVariant && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              This combination is not available.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 3 }}>
+            <TextField
+              size="small"
+              type="number"
+              label="Quantity"
+              value={quantity}
+              onChange={handleQuantityChange}
+              inputProps={{ min: 1, max: MAX_LINE_QUANTITY }}
+              sx={{ width: 100 }}
+            />
+            <Button
+              variant="contained"
+              size="large"
+              onClick={handleAddToCart}
+              disabled={!canAddToCart}
+            >
+              {hasVariants && !selectionComplete ? 'Select options' : 'Add to cart'}
+            </Button>
+          </Box>
+
+          {product.description ? (
+            <Typography variant="body1" sx={{ whiteSpace: 'pre-line' }}>
+              {product.description}
+            </Typography>
+          ) : (
+            loading && <CircularProgress size={24} />
+          )}
+        </Grid>
+      </Grid>
+
+      <Snackbar
+        open={Boolean(addedMessage)}
+        autoHideDuration={3000}
+        onClose={() => setAddedMessage('')}
+        message={addedMessage}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,4 @@
+import React from 'react';
+import { CatalogListing } from '../components/catalog/CatalogListing';
+
+export const Products: React.FC = () => <CatalogListing title="Products" />;
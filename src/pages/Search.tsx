@@ -0,0 +1,35 @@
+import React from 'react';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import { Box, Button, Typography } from '@mui/material';
+import { CatalogListing } from '../components/catalog/CatalogListing';
+import { parseCatalogView } from '../utilities/catalog';
+
+// Search results are the catalog view with a `q` param, so filters, sort and pagination work
+// exactly as on /products
+export const Search: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { search } = parseCatalogView(searchParams).filter;
+
+  if (!search) {
+    return (
+      <Box sx={{ mt: 4, textAlign: 'center' }}>
+        <Typography variant="h4" gutterBottom>
+          Search
+        </Typography>
+        <Typography color="text.secondary" sx={{ mb: 2 }}>
+          Type in the search box above to find products.
+        </Typography>
+        <Button variant="contained" component={RouterLink} to="/products">
+          Browse products
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <CatalogListing
+      title={`Results for “${search}”`}
+      emptyMessage={`No products match “${search}” with these filters.`}
+    />
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { useQuery } from '@apollo/client';
+import {
+  Alert,
+  Avatar,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  Link as MuiLink,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Snackbar,
+  Typography,
+} from '@mui/material';
+import { WISHLIST_PRODUCTS_QUERY } from '../graphql/operations';
+import { selectWishlistItems } from '../redux/slices/wishlistSlice';
+import type { WishlistItem } from '../redux/slices/wishlistSlice';
+import { moveWishlistItemToCart, removeFromWishlist } from '../redux/thunks/wishlistThunks';
+import { formatPrice } from '../utilities/catalog';
+import {
+  canMoveToCart,
+  getWishlistFlags,
+  toWishlistCartItem,
+  WishlistFlag,
+  WISHLIST_FLAG_COLORS,
+} from '../utilities/wishlist';
+import type { WishlistProduct } from '../utilities/wishlist';
+import type { AppDispatch } from '../redux/store';
+
+function getFlagLabel(flag: WishlistFlag, item: WishlistItem): string {
+  const savedPrice = formatPrice(item.savedPrice, item.currency);
+
+  switch (flag) {
+    case WishlistFlag.UNAVAILABLE:
+      return 'No longer available';
+    case WishlistFlag.OUT_OF_STOCK:
+      return 'Out of stock';
+    case WishlistFlag.PRICE_DROPPED:
+      return `Price dropped from ${savedPrice}`;
+    case WishlistFlag.PRICE_INCREASED:
+      return `Price went up from ${savedPrice}`;
+  }
+}
+
+// Works for guests and signed-in users alike: the saved items come from the wishlist slice and
+// their current price and stock from the catalog
+export const Wishlist: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const items = useSelector(selectWishlistItems);
+  const [message, setMessage] = useState('');
+
+  const { data, loading, error } = useQuery(WISHLIST_PRODUCTS_QUERY, {
+    variables: { slugs: items.map((item) => item.slug) },
+    skip: items.length === 0,
+    fetchPolicy: 'cache-and-network',
+  });
+  const products: ReadonlyArray<WishlistProduct> = data?.productsBySlugs ?? [];
+  // Until the first response there is nothing to compare against, so nothing is flagged
+  const hasProducts = data?.productsBySlugs !== undefined;
+
+  const handleMoveToCart = async (product: WishlistProduct): Promise<void> => {
+    await dispatch(moveWishlistItemToCart(toWishlistCartItem(product)));
+    setMessage(`Moved ${product.name} to your cart`);
+  };
+
+  if (items.length === 0) {
+    return (
+      <Box sx={{ mt: 4, textAlign: 'center' }}>
+        <Typography variant="h4" gutterBottom>
+          Wishlist
+        </Typography>
+        <Typography color="text.secondary" sx={{ mb: 2 }}>
+          Tap the heart on any product to save it here.
+        </Typography>
+        <Button variant="contained" component={RouterLink} to="/products">
+          Browse products
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        Wishlist
+      </Typography>
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Current prices and stock could not be loaded.
+        </Alert>
+      )}
+
+      <List>
+        {items.map((item, index) => {
+          const product = products.find(({ slug }) => slug === item.slug);
+          const flags = hasProducts ? getWishlistFlags(item, product) : [];
+          const price = product?.price ?? item.savedPrice;
+
+          return (
+            <React.Fragment key={item.productId}>
+              {index > 0 && <Divider component="li" />}
+              <ListItem alignItems="flex-start" sx={{ flexWrap: 'wrap', gap: 1 }}>
+                <ListItemAvatar>
+                  <Avatar
+                    variant="rounded"
+                    src={item.thumbnailUrl ?? undefined}
+                    alt={item.name}
+                    sx={{ width: 64, height: 64, mr: 2 }}
+                  />
+                </ListItemAvatar>
+                <ListItemText
+                  primary={
+                    <MuiLink component={RouterLink} to={`/products/${item.slug}`}>
+                      {product?.name ?? item.name}
+                    </MuiLink>
+                  }
+                  secondary={
+                    <Box component="span" sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                      <Typography component="span" variant="body2">
+                        {formatPrice(price, product?.currency ?? item.currency)}
+                      </Typography>
+                      {flags.map((flag) => (
+                        <Chip
+                          key={flag}
+                          component="span"
+                          size="small"
+                          color={WISHLIST_FLAG_COLORS[flag]}
+                          label={getFlagLabel(flag, item)}
+                        />
+                      ))}
+                    </Box>
+                  }
+                />
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  {loading && !hasProducts ? (
+                    <CircularProgress size={24} />
+                  ) : product && product.variants.length > 0 ? (
+                    <Button component={RouterLink} to={`/products/${item.slug}`}>
+                      Choose options
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="contained"
+                      disabled={!canMoveToCart(product)}
+                      onClick={() => canMoveToCart(product) && handleMoveToCart(product)}
+                    >
+                      Move to cart
+                    </Button>
+                  )}
+                  <Button
+                    color="inherit"
+                    onClick={() => dispatch(removeFromWishlist(item.productId))}
+                  >
+                    Remove
+                  </Button>
+                </Box>
+              </ListItem>
+            </React.Fragment>
+          );
+        })}
+      </List>
+
+      <Snackbar
+        open={Boolean(message)}
+        autoHideDuration={3000}
+        onClose={() => setMessage('')}
+        message={message}
+      />
+    </Box>
+  );
+};
@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { RootState } from '../store';
+import type { TokenStorageType } from '../../utilities/tokenStorage';
 
 // Enums
 export enum AuthStatus {
@@ -7,33 +8,87 @@ export enum AuthStatus {
   LOADING = 'LOADING',
   AUTHENTICATED = 'AUTHENTICATED',
   UNAUTHENTICATED = 'UNAUTHENTICATED',
+  MFA_REQUIRED = 'MFA_REQUIRED',
   ERROR = 'ERROR',
 }
 
 export enum AuthErrorType {
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  FORBIDDEN = 'FORBIDDEN',
+  CSRF_TOKEN_INVALID = 'CSRF_TOKEN_INVALID',
+  SERVER_ERROR = 'SERVER_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
   UNKNOWN = 'UNKNOWN',
 }
 
+export enum MfaMethod {
+  TOTP = 'TOTP',
+  RECOVERY_CODE = 'RECOVERY_CODE',
+}
+
+export enum UserRole {
+  CUSTOMER = 'CUSTOMER',
+  STAFF = 'STAFF',
+  ADMIN = 'ADMIN',
+}
+
+export enum Permission {
+  VIEW_ADMIN_DASHBOARD = 'VIEW_ADMIN_DASHBOARD',
+  MANAGE_PRODUCTS = 'MANAGE_PRODUCTS',
+  MANAGE_ORDERS = 'MANAGE_ORDERS',
+  MANAGE_USERS = 'MANAGE_USERS',
+}
+
 // Interfaces
 export interface User {
   id: number;
   email: string;
   name: string;
   status: string;
+  roles: UserRole[];
+  permissions: Permission[];
+  mfaEnabled: boolean;
+  pendingEmail: string | null;
   createdAt: string;
 }
 
+// A user must hold at least one of requiredRoles and every one of requiredPermissions
+export interface AccessRequirements {
+  requiredRoles?: ReadonlyArray<UserRole>;
+  requiredPermissions?: ReadonlyArray<Permission>;
+}
+
 export interface AuthError {
   type: AuthErrorType;
   message: string;
+  // Validation messages keyed by input field path (e.g. "email", "address.postalCode")
+  fieldErrors?: Record<string, string>;
+  retryAfterSeconds?: number;
+}
+
+// Issued by the login mutation when a second factor must be verified before a session exists
+export interface MfaChallenge {
+  challengeToken: string;
+  tokenStorageType: TokenStorageType;
+}
+
+// Short-lived proof of a recent password check, required by sensitive account mutations
+export interface Reauthentication {
+  reauthToken: string;
+  expiresAt: string;
 }
 
 export interface AuthState {
   user: User | null;
   accessToken: string | null;
   refreshToken: string | null;
+  mfaChallenge: MfaChallenge | null;
+  reauthentication: Reauthentication | null;
   status: AuthStatus;
   error: AuthError | null;
 }
@@ -43,6 +98,8 @@ const initialState: AuthState = {
   user: null,
   accessToken: null,
   refreshToken: null,
+  mfaChallenge: null,
+  reauthentication: null,
   status: AuthStatus.IDLE,
   error: null,
 };
@@ -54,22 +111,33 @@ const authSlice = createSlice({
   reducers: {
     setUser: (state, action: PayloadAction<User>) => {
       state.user = action.payload;
+      state.mfaChallenge = null;
       state.status = AuthStatus.AUTHENTICATED;
     },
     setTokens: (
       state,
-      action: PayloadAction<{ accessToken: string; refreshToken: string }>
+      action: PayloadAction<{ accessToken: string; refreshToken?: string }>
     ) => {
       state.accessToken = action.payload.accessToken;
-      state.refreshToken = action.payload.refreshToken;
+      state.refreshToken = action.payload.refreshToken ?? null;
     },
     clearAuth: (state) => {
       state.user = null;
       state.accessToken = null;
       state.refreshToken = null;
+      state.mfaChallenge = null;
+      state.reauthentication = null;
       state.status = AuthStatus.UNAUTHENTICATED;
       state.error = null;
     },
+    setMfaChallenge: (state, action: PayloadAction<MfaChallenge>) => {
+      state.mfaChallenge = action.payload;
+      state.status = AuthStatus.MFA_REQUIRED;
+      state.error = null;
+    },
+    setReauthentication: (state, action: PayloadAction<Reauthentication | null>) => {
+      state.reauthentication = action.payload;
+    },
     setError: (state, action: PayloadAction<AuthError>) => {
       state.error = action.payload;
       state.status = AuthStatus.ERROR;
@@ -81,7 +149,15 @@ const authSlice = createSlice({
 });
 
 // Actions
-export const { setUser, setTokens, clearAuth, setError, setStatus } = authSlice.actions;
+export const {
+  setUser,
+  setTokens,
+  clearAuth,
+  setMfaChallenge,
+  setReauthentication,
+  setError,
+  setStatus,
+} = authSlice.actions;
 
 // Selectors
 export const selectIsAuthenticated = (state: RootState): boolean =>
@@ -95,5 +171,31 @@ export const selectAuthError = (state: RootState): AuthError | null => state.aut
 
 export const selectAccessToken = (state: RootState): string | null => state.auth.accessToken;
 
+export const selectMfaChallenge = (state: RootState): MfaChallenge | null =>
+  state.auth.mfaChallenge;
+
+// Returns the reauth token only while it is still valid
+export const selectValidReauthToken = (state: RootState): string | null => {
+  const reauthentication = state.auth.reauthentication;
+  if (!reauthentication || Date.parse(reauthentication.expiresAt) <= Date.now()) {
+    return null;
+  }
+  return reauthentication.reauthToken;
+};
+
+export const selectHasRole = (state: RootState, role: UserRole): boolean =>
+  state.auth.user?.roles?.includes(role) ?? false;
+
+export const selectHasPermission = (state: RootState, permission: Permission): boolean =>
+  state.auth.user?.permissions?.includes(permission) ?? false;
+
+export const selectIsAuthorized = (
+  state: RootState,
+  { requiredRoles = [], requiredPermissions = [] }: AccessRequirements
+): boolean =>
+  selectIsAuthenticated(state) &&
+  (requiredRoles.length === 0 || requiredRoles.some((role) => selectHasRole(state, role))) &&
+  requiredPermissions.every((permission) => selectHasPermission(state, permission));
+
 // Reducer
 export default authSlice.reducer;
@@ -0,0 +1,50 @@
+import { mergeCartItems, MAX_LINE_QUANTITY } from './cartSlice';
+import type { CartItem } from './cartSlice';
+
+function line(productId: string, quantity: number, variantId: string | null = null): CartItem {
+  return {
+    productId,
+    slug: productId,
+    variantId,
+    name: productId,
+    variantLabel: null,
+    unitPrice: 10,
+    currency: 'USD',
+    thumbnailUrl: null,
+    quantity,
+  };
+}
+
+describe('mergeCartItems', () => {
+  it('keeps the larger quantity for a line in both carts instead of adding them', () => {
+    expect(mergeCartItems([line('shirt', 2)], [line('shirt', 3)])).toEqual([line('shirt', 3)]);
+    expect(mergeCartItems([line('shirt', 4)], [line('shirt', 1)])).toEqual([line('shirt', 4)]);
+  });
+
+  it('keeps account lines first and appends guest-only lines', () => {
+    const merged = mergeCartItems([line('shirt', 1)], [line('socks', 2), line('shirt', 1)]);
+    expect(merged.map(({ productId }) => productId)).toEqual(['shirt', 'socks']);
+  });
+
+  it('treats variants of one product as separate lines', () => {
+    const merged = mergeCartItems([line('shirt', 1, 'small')], [line('shirt', 2, 'large')]);
+    expect(merged).toEqual([line('shirt', 1, 'small'), line('shirt', 2, 'large')]);
+  });
+
+  it('clamps quantities to the per-line limit', () => {
+    const merged = mergeCartItems([], [line('socks', MAX_LINE_QUANTITY + 5)]);
+    expect(merged[0].quantity).toBe(MAX_LINE_QUANTITY);
+  });
+
+  it('returns the account cart unchanged when there are no guest lines', () => {
+    expect(mergeCartItems([line('shirt', 2)], [])).toEqual([line('shirt', 2)]);
+  });
+
+  it('does not modify either input', () => {
+    const serverItems = [line('shirt', 1)];
+    const guestItems = [line('shirt', 5)];
+    mergeCartItems(serverItems, guestItems);
+    expect(serverItems).toEqual([line('shirt', 1)]);
+    expect(guestItems).toEqual([line('shirt', 5)]);
+  });
+});
@@ -0,0 +1,131 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { loadGuestCart } from '../../utilities/cartStorage';
+import type { RootState } from '../store';
+
+// Interfaces
+// Snapshot of what the shopper saw when adding the item; prices are confirmed at checkout
+export interface CartItem {
+  productId: string;
+  slug: string;
+  variantId: string | null;
+  name: string;
+  variantLabel: string | null;
+  unitPrice: number;
+  currency: string;
+  thumbnailUrl: string | null;
+  quantity: number;
+}
+
+// Identifies one cart line: a product, or one variant of it
+export type CartLineKey = Pick<CartItem, 'productId' | 'variantId'>;
+
+export interface CartQuantityUpdate extends CartLineKey {
+  quantity: number;
+}
+
+export interface CartTotals {
+  itemCount: number;
+  subtotal: number;
+  currency: string | null;
+}
+
+export interface CartState {
+  items: CartItem[];
+  // Whether the signed-in account's saved cart has been merged in; reset at each sign-in
+  merged: boolean;
+}
+
+// Constants
+export const MAX_LINE_QUANTITY = 99 as const;
+
+// Initial state: a guest cart saved by an earlier visit
+const initialState: CartState = {
+  items: loadGuestCart(),
+  merged: false,
+};
+
+export function isSameCartLine(a: CartLineKey, b: CartLineKey): boolean {
+  return a.productId === b.productId && a.variantId === b.variantId;
+}
+
+export function clampQuantity(quantity: number): number {
+  return Math.min(Math.max(Math.trunc(quantity), 1), MAX_LINE_QUANTITY);
+}
+
+// Merge rule for a product/variant present in both carts: keep the larger quantity rather
+// than the sum, so items that were already in the account cart are not doubled. Lines in only
+// one cart are kept as they are; account lines come first.
+export function mergeCartItems(
+  serverItems: ReadonlyArray<CartItem>,
+  guestItems: ReadonlyArray<CartItem>
+): CartItem[] {
+  const merged = serverItems.map((item) => ({ ...item }));
+
+  guestItems.forEach((guestItem) => {
+    const existing = merged.find((item) => isSameCartLine(item, guestItem));
+
+    if (existing) {
+      existing.quantity = clampQuantity(Math.max(existing.quantity, guestItem.quantity));
+    } else {
+      merged.push({ ...guestItem, quantity: clampQuantity(guestItem.quantity) });
+    }
+  });
+
+  return merged;
+}
+
+// Slice
+const cartSlice = createSlice({
+  name: 'cart',
+  initialState,
+  reducers: {
+    // Adding a product/variant already in the cart increases its quantity
+    addItem: (state, action: PayloadAction<CartItem>) => {
+      const existing = state.items.find((item) => isSameCartLine(item, action.payload));
+
+      if (existing) {
+        existing.quantity = clampQuantity(existing.quantity + action.payload.quantity);
+      } else {
+        state.items.push({ ...action.payload, quantity: clampQuantity(action.payload.quantity) });
+      }
+    },
+    updateItemQuantity: (state, action: PayloadAction<CartQuantityUpdate>) => {
+      const existing = state.items.find((item) => isSameCartLine(item, action.payload));
+      if (existing) {
+        existing.quantity = clampQuantity(action.payload.quantity);
+      }
+    },
+    removeItem: (state, action: PayloadAction<CartLineKey>) => {
+      state.items = state.items.filter((item) => !isSameCartLine(item, action.payload));
+    },
+    setCartItems: (state, action: PayloadAction<CartItem[]>) => {
+      state.items = action.payload;
+    },
+    setCartMerged: (state, action: PayloadAction<boolean>) => {
+      state.merged = action.payload;
+    },
+    clearCart: (state) => {
+      state.items = [];
+    },
+  },
+});
+
+// Actions
+export const { addItem, updateItemQuantity, removeItem, setCartItems, setCartMerged, clearCart } =
+  cartSlice.actions;
+
+// Selectors
+export const selectCartItems = (state: RootState): CartItem[] => state.cart.items;
+
+export const selectCartItemCount = (state: RootState): number =>
+  state.cart.items.reduce((count, item) => count + item.quantity, 0);
+
+// Carts are single-currency; the subtotal excludes shipping and tax, which checkout adds
+export const selectCartTotals = (state: RootState): CartTotals => ({
+  itemCount: selectCartItemCount(state),
+  subtotal: state.cart.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+  currency: state.cart.items[0]?.currency ?? null,
+});
+
+// Reducer
+export default cartSlice.reducer;
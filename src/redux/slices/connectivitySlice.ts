@@ -0,0 +1,48 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from '../store';
+
+// Interfaces
+export interface ConnectivityState {
+  // Browser network status (navigator.onLine and online/offline events)
+  isOnline: boolean;
+  // False after a request fails at the network level, until a health probe succeeds
+  isServerReachable: boolean;
+  lastCheckedAt: string | null;
+}
+
+// Initial state
+const initialState: ConnectivityState = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isServerReachable: true,
+  lastCheckedAt: null,
+};
+
+// Slice
+const connectivitySlice = createSlice({
+  name: 'connectivity',
+  initialState,
+  reducers: {
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    setServerReachable: (state, action: PayloadAction<boolean>) => {
+      state.isServerReachable = action.payload;
+      state.lastCheckedAt = new Date().toISOString();
+    },
+  },
+});
+
+// Actions
+export const { setOnline, setServerReachable } = connectivitySlice.actions;
+
+// Selectors
+export const selectIsOnline = (state: RootState): boolean => state.connectivity.isOnline;
+
+export const selectIsServerReachable = (state: RootState): boolean =>
+  state.connectivity.isServerReachable;
+
+export const selectIsConnectionDegraded = (state: RootState): boolean =>
+  !state.connectivity.isOnline || !state.connectivity.isServerReachable;
+
+// Reducer
+export default connectivitySlice.reducer;
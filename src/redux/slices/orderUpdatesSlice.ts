@@ -0,0 +1,55 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { OrderStatus } from '../../utilities/orders';
+import type { RootState } from '../store';
+
+// Interfaces
+// A status change pushed by the order-status subscription that the user has not looked at yet
+export interface OrderStatusUpdate {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  receivedAt: string;
+}
+
+export interface OrderUpdatesState {
+  unread: OrderStatusUpdate[];
+}
+
+// Constants
+const MAX_UNREAD_UPDATES = 20 as const;
+
+// Initial state
+const initialState: OrderUpdatesState = {
+  unread: [],
+};
+
+// Slice
+const orderUpdatesSlice = createSlice({
+  name: 'orderUpdates',
+  initialState,
+  reducers: {
+    // Newest first; a newer update for the same order replaces the older one
+    addOrderUpdate: (state, action: PayloadAction<OrderStatusUpdate>) => {
+      state.unread = [
+        action.payload,
+        ...state.unread.filter(({ orderId }) => orderId !== action.payload.orderId),
+      ].slice(0, MAX_UNREAD_UPDATES);
+    },
+    markOrderUpdateRead: (state, action: PayloadAction<string>) => {
+      state.unread = state.unread.filter(({ orderId }) => orderId !== action.payload);
+    },
+    clearOrderUpdates: (state) => {
+      state.unread = [];
+    },
+  },
+});
+
+// Actions
+export const { addOrderUpdate, markOrderUpdateRead, clearOrderUpdates } = orderUpdatesSlice.actions;
+
+// Selectors
+export const selectUnreadOrderUpdates = (state: RootState): OrderStatusUpdate[] =>
+  state.orderUpdates.unread;
+
+// Reducer
+export default orderUpdatesSlice.reducer;
@@ -0,0 +1,90 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { loadGuestWishlist } from '../../utilities/wishlistStorage';
+import type { ProductSummary } from '../../utilities/catalog';
+import type { RootState } from '../store';
+
+// Interfaces
+// Snapshot of the product when it was saved; the wishlist page compares it with the current
+// product to flag price changes
+export interface WishlistItem {
+  productId: string;
+  slug: string;
+  name: string;
+  thumbnailUrl: string | null;
+  savedPrice: number;
+  currency: string;
+  // ISO timestamp
+  addedAt: string;
+}
+
+export interface WishlistState {
+  items: WishlistItem[];
+  // Whether the signed-in account's saved wishlist has been merged in; reset at each sign-in
+  merged: boolean;
+}
+
+// Initial state: a guest wishlist saved by an earlier visit
+const initialState: WishlistState = {
+  items: loadGuestWishlist(),
+  merged: false,
+};
+
+export function toWishlistItem(
+  product: Pick<ProductSummary, 'id' | 'slug' | 'name' | 'thumbnailUrl' | 'price' | 'currency'>
+): WishlistItem {
+  return {
+    productId: product.id,
+    slug: product.slug,
+    name: product.name,
+    thumbnailUrl: product.thumbnailUrl,
+    savedPrice: product.price,
+    currency: product.currency,
+    addedAt: new Date().toISOString(),
+  };
+}
+
+// Slice
+const wishlistSlice = createSlice({
+  name: 'wishlist',
+  initialState,
+  reducers: {
+    // Saving a product twice keeps the first snapshot
+    addWishlistItem: (state, action: PayloadAction<WishlistItem>) => {
+      if (!state.items.some((item) => item.productId === action.payload.productId)) {
+        state.items.unshift(action.payload);
+      }
+    },
+    removeWishlistItem: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter((item) => item.productId !== action.payload);
+    },
+    setWishlistItems: (state, action: PayloadAction<WishlistItem[]>) => {
+      state.items = action.payload;
+    },
+    setWishlistMerged: (state, action: PayloadAction<boolean>) => {
+      state.merged = action.payload;
+    },
+    clearWishlist: (state) => {
+      state.items = [];
+    },
+  },
+});
+
+// Actions
+export const {
+  addWishlistItem,
+  removeWishlistItem,
+  setWishlistItems,
+  setWishlistMerged,
+  clearWishlist,
+} = wishlistSlice.actions;
+
+// Selectors
+export const selectWishlistItems = (state: RootState): WishlistItem[] => state.wishlist.items;
+
+export const selectWishlistCount = (state: RootState): number => state.wishlist.items.length;
+
+export const selectIsInWishlist = (state: RootState, productId: string): boolean =>
+  state.wishlist.items.some((item) => item.productId === productId);
+
+// Reducer
+export default wishlistSlice.reducer;
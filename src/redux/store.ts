@@ -1,11 +1,24 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './slices/authSlice';
+import cartReducer from './slices/cartSlice';
+import connectivityReducer from './slices/connectivitySlice';
+import orderUpdatesReducer from './slices/orderUpdatesSlice';
+import wishlistReducer from './slices/wishlistSlice';
+import { persistGuestCart } from '../utilities/cartStorage';
+import { persistGuestWishlist } from '../utilities/wishlistStorage';
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
+    cart: cartReducer,
+    connectivity: connectivityReducer,
+    orderUpdates: orderUpdatesReducer,
+    wishlist: wishlistReducer,
   },
 });
 
+store.subscribe(() => persistGuestCart(store.getState()));
+store.subscribe(() => persistGuestWishlist(store.getState()));
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,181 @@
+import { apolloClient } from '../../apollo/client';
+import { store } from '../store';
+import { setTokens, setUser } from '../slices/authSlice';
+import type { User } from '../slices/authSlice';
+import { addItem } from '../slices/cartSlice';
+import { syncSession } from './authThunks';
+import { mergeGuestCart } from './cartThunks';
+import { startTokenRenewal, stopTokenRenewal } from '../../utilities/tokenRenewal';
+import { SessionEventType } from '../../utilities/sessionSync';
+import {
+  getAccessToken,
+  getTokenStorageType,
+  saveTokens,
+  selectTokenStorage,
+  StorageKey,
+  TokenStorageType,
+} from '../../utilities/tokenStorage';
+
+jest.mock('../../apollo/client', () => ({
+  apolloClient: {
+    query: jest.fn(),
+    mutate: jest.fn(),
+    resetStore: jest.fn(),
+    clearStore: jest.fn(),
+  },
+}));
+
+jest.mock('../../config/runtimeConfig', () => ({
+  runtimeConfig: { tokenRenewalMarginSeconds: null },
+}));
+
+jest.mock('../../utilities/tokenRenewal', () => ({
+  startTokenRenewal: jest.fn(),
+  stopTokenRenewal: jest.fn(),
+}));
+
+jest.mock('./cartThunks', () => ({
+  mergeGuestCart: jest.fn(() => ({ type: 'cart/mergeGuestCart' })),
+}));
+
+jest.mock('./wishlistThunks', () => ({
+  mergeGuestWishlist: jest.fn(() => ({ type: 'wishlist/mergeGuestWishlist' })),
+}));
+
+const queryMock = apolloClient.query as jest.Mock;
+
+function user(id: number): User {
+  return { id, email: `user${id}@example.com`, name: `User ${id}` } as User;
+}
+
+function signInAs(id: number): void {
+  queryMock.mockResolvedValueOnce({ data: { me: user(id) } });
+}
+
+describe('syncSession', () => {
+  beforeEach(async () => {
+    // Start every test signed out, with an empty Apollo cache
+    await store.dispatch(syncSession({ type: SessionEventType.LOGOUT }));
+    localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('LOGIN', () => {
+    it('loads the user without receiving a token from the other tab', async () => {
+      selectTokenStorage(TokenStorageType.MEMORY);
+      signInAs(1);
+
+      await store.dispatch(syncSession({ type: SessionEventType.LOGIN, userId: 1 }));
+
+      expect(queryMock).toHaveBeenCalledWith(
+        expect.objectContaining({ fetchPolicy: 'network-only' })
+      );
+      expect(store.getState().auth.user).toEqual(user(1));
+      // refreshLink fetches this tab's own token when the query needs one
+      expect(store.getState().auth.accessToken).toBeNull();
+      expect(startTokenRenewal).toHaveBeenCalled();
+      expect(mergeGuestCart).toHaveBeenCalled();
+    });
+
+    it('picks up a "Remember me" token shared through localStorage', async () => {
+      selectTokenStorage(TokenStorageType.LOCAL);
+      saveTokens('shared-token');
+      signInAs(1);
+
+      await store.dispatch(syncSession({ type: SessionEventType.LOGIN, userId: 1 }));
+
+      expect(store.getState().auth.accessToken).toBe('shared-token');
+    });
+
+    it("resets the Apollo cache when it holds another user's data", async () => {
+      signInAs(1);
+      await store.dispatch(syncSession({ type: SessionEventType.LOGIN, userId: 1 }));
+      expect(apolloClient.resetStore).not.toHaveBeenCalled();
+
+      signInAs(2);
+      await store.dispatch(syncSession({ type: SessionEventType.LOGIN, userId: 2 }));
+
+      expect(apolloClient.resetStore).toHaveBeenCalledTimes(1);
+      expect(store.getState().auth.user).toEqual(user(2));
+    });
+
+    it('stays signed out if the user cannot be loaded', async () => {
+      queryMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await store.dispatch(syncSession({ type: SessionEventType.LOGIN, userId: 1 }));
+
+      expect(store.getState().auth.user).toBeNull();
+      expect(startTokenRenewal).not.toHaveBeenCalled();
+      expect(mergeGuestCart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TOKEN_REFRESHED', () => {
+    it('reads a refreshed "Remember me" token from localStorage', async () => {
+      selectTokenStorage(TokenStorageType.LOCAL);
+      store.dispatch(setTokens({ accessToken: 'old-token' }));
+      saveTokens('new-token');
+
+      await store.dispatch(syncSession({ type: SessionEventType.TOKEN_REFRESHED }));
+
+      expect(store.getState().auth.accessToken).toBe('new-token');
+    });
+
+    it("keeps this tab's own token when tokens are not shared", async () => {
+      selectTokenStorage(TokenStorageType.MEMORY);
+      saveTokens('tab-token');
+      store.dispatch(setTokens({ accessToken: 'tab-token' }));
+
+      await store.dispatch(syncSession({ type: SessionEventType.TOKEN_REFRESHED }));
+
+      expect(store.getState().auth.accessToken).toBe('tab-token');
+    });
+  });
+
+  describe('LOGOUT', () => {
+    it('signs this tab out and clears account data', async () => {
+      selectTokenStorage(TokenStorageType.MEMORY);
+      saveTokens('tab-token');
+      store.dispatch(setTokens({ accessToken: 'tab-token' }));
+      store.dispatch(setUser(user(1)));
+      store.dispatch(
+        addItem({
+          productId: 'shirt',
+          slug: 'shirt',
+          variantId: null,
+          name: 'Shirt',
+          variantLabel: null,
+          unitPrice: 10,
+          currency: 'USD',
+          thumbnailUrl: null,
+          quantity: 1,
+        })
+      );
+
+      await store.dispatch(syncSession({ type: SessionEventType.LOGOUT }));
+
+      expect(store.getState().auth.user).toBeNull();
+      expect(store.getState().auth.accessToken).toBeNull();
+      expect(store.getState().cart.items).toEqual([]);
+      expect(getAccessToken()).toBeNull();
+      expect(stopTokenRenewal).toHaveBeenCalled();
+      expect(apolloClient.clearStore).toHaveBeenCalled();
+    });
+
+    it('leaves shared storage to the tab that signed out', async () => {
+      // A sign-in in a third tab may have happened since the logout was sent
+      selectTokenStorage(TokenStorageType.LOCAL);
+      saveTokens('newer-session-token');
+
+      await store.dispatch(syncSession({ type: SessionEventType.LOGOUT }));
+
+      expect(getTokenStorageType()).toBe(TokenStorageType.LOCAL);
+      expect(localStorage.getItem(StorageKey.ACCESS_TOKEN)).toBe('newer-session-token');
+    });
+  });
+});
@@ -1,14 +1,56 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
+import type { Dispatch } from '@reduxjs/toolkit';
 import { apolloClient } from '../../apollo/client';
-import { REGISTER_MUTATION, LOGIN_MUTATION, ME_QUERY, LOGOUT_MUTATION } from '../../graphql/operations';
-import { setUser, setTokens, clearAuth, setStatus, setError, AuthStatus, AuthErrorType } from '../slices/authSlice';
-import { clearTokens, getAccessToken, getRefreshToken, saveTokens } from '../../utilities/tokenStorage';
-import type { User } from '../slices/authSlice';
+import { classifyGraphQLErrors, normalizeError } from '../../apollo/errorNormalization';
+import {
+  REGISTER_MUTATION,
+  LOGIN_MUTATION,
+  ME_QUERY,
+  LOGOUT_MUTATION,
+  VERIFY_MFA_MUTATION,
+  OAUTH_LOGIN_MUTATION,
+  LINK_OAUTH_ACCOUNT_MUTATION,
+} from '../../graphql/operations';
+import {
+  setUser,
+  setTokens,
+  clearAuth,
+  setMfaChallenge,
+  setStatus,
+  setError,
+  AuthStatus,
+  AuthErrorType,
+  MfaMethod,
+} from '../slices/authSlice';
+import {
+  clearTabTokens,
+  clearTokens,
+  getAccessToken,
+  getTokenStorageType,
+  saveTokens,
+  selectTokenStorage,
+  DEFAULT_TOKEN_STORAGE_TYPE,
+  TokenStorageType,
+} from '../../utilities/tokenStorage';
+import { startTokenRenewal, stopTokenRenewal } from '../../utilities/tokenRenewal';
+import type { TokenRenewalOptions } from '../../utilities/tokenRenewal';
+import { runtimeConfig } from '../../config/runtimeConfig';
+import { broadcastSessionEvent, SessionEventType } from '../../utilities/sessionSync';
+import type { SessionEvent } from '../../utilities/sessionSync';
+import { clearCart } from '../slices/cartSlice';
+import { clearOrderUpdates } from '../slices/orderUpdatesSlice';
+import { clearWishlist } from '../slices/wishlistSlice';
+import { mergeGuestCart } from './cartThunks';
+import { mergeGuestWishlist } from './wishlistThunks';
+import type { OAuthProvider } from '../../config/oauthProviders';
+import type { AuthError, User } from '../slices/authSlice';
+import type { RootState } from '../store';
 
 // Typed parameter interfaces
 export interface LoginCredentials {
   email: string;
   password: string;
+  tokenStorageType?: TokenStorageType;
 }
 
 export interface RegisterData {
@@ -17,10 +59,96 @@ export interface RegisterData {
   name: string;
 }
 
+export interface MfaVerification {
+  code: string;
+  method: MfaMethod;
+}
+
+// Login either establishes a session or asks for a second factor
+export interface LoginResult {
+  user: User | null;
+  mfaRequired: boolean;
+}
+
+export interface OAuthCodeExchange {
+  provider: OAuthProvider;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  tokenStorageType: TokenStorageType;
+}
+
+// The provider's email belongs to an existing account; the user must confirm before linking
+export interface OAuthLinkRequest {
+  linkToken: string;
+  email: string;
+  tokenStorageType: TokenStorageType;
+}
+
+export interface OAuthLoginResult extends LoginResult {
+  linkRequest: OAuthLinkRequest | null;
+}
+
+export interface OAuthLinkConfirmation {
+  linkToken: string;
+  password: string;
+  tokenStorageType: TokenStorageType;
+}
+
+// Unset keeps tokenRenewal's default margin
+const TOKEN_RENEWAL_OPTIONS: TokenRenewalOptions = {
+  marginMs:
+    runtimeConfig.tokenRenewalMarginSeconds === null
+      ? undefined
+      : runtimeConfig.tokenRenewalMarginSeconds * 1000,
+};
+
+// Id of the user whose data the Apollo cache holds. A session can also end without logoutUser
+// (e.g. the refresh token expires), so the cache is checked again at the next sign-in.
+let cacheOwnerId: User['id'] | null = null;
+
+// Never show one user's cached data (addresses, orders) to another
+async function claimApolloCache(userId: User['id']): Promise<void> {
+  if (cacheOwnerId !== null && cacheOwnerId !== userId) {
+    await apolloClient.resetStore();
+  }
+  cacheOwnerId = userId;
+}
+
+async function releaseApolloCache(): Promise<void> {
+  await apolloClient.clearStore();
+  cacheOwnerId = null;
+}
+
+// Shared by every flow that ends with a signed-in user. Resolves once the cache is safe to use,
+// so queries that follow (e.g. the cart merge) are not cancelled by a store reset.
+async function establishSession(
+  dispatch: Dispatch,
+  user: User,
+  accessToken: string,
+  tokenStorageType: TokenStorageType
+): Promise<void> {
+  await claimApolloCache(user.id);
+  // Access token is persisted only if the user opted in - refresh token is in HttpOnly cookie
+  selectTokenStorage(tokenStorageType);
+  saveTokens(accessToken);
+  dispatch(setTokens({ accessToken }));
+  dispatch(setUser(user));
+  startTokenRenewal(TOKEN_RENEWAL_OPTIONS);
+  broadcastSessionEvent({ type: SessionEventType.LOGIN, userId: user.id });
+}
+
 // Login user thunk
-export const loginUser = createAsyncThunk<User, LoginCredentials>(
+export const loginUser = createAsyncThunk<
+  LoginResult,
+  LoginCredentials,
+  { rejectValue: AuthError }
+>(
   'auth/login',
-  async (credentials, { dispatch, rejectWithValue }) => {
+  async (
+    { tokenStorageType = DEFAULT_TOKEN_STORAGE_TYPE, ...credentials },
+    { dispatch, rejectWithValue }
+  ) => {
     try {
       dispatch(setStatus(AuthStatus.LOADING));
 
@@ -30,29 +158,170 @@ export const loginUser = createAsyncThunk<User, LoginCredentials>(
       });
 
       if (errors && errors.length > 0) {
-        const errorMessage = errors[0].message;
-        dispatch(setError({ type: AuthErrorType.INVALID_CREDENTIALS, message: errorMessage }));
-        return rejectWithValue(errorMessage);
+        const authError = classifyGraphQLErrors(errors);
+        dispatch(setError(authError));
+        return rejectWithValue(authError);
       }
 
-      const { user, accessToken } = data.login;
+      const { user, accessToken, mfaRequired, challengeToken } = data.login;
+
+      // Password was correct but the account has 2FA: no session until the code is verified
+      if (mfaRequired) {
+        dispatch(setMfaChallenge({ challengeToken, tokenStorageType }));
+        return { user: null, mfaRequired: true };
+      }
 
-      // Only save access token - refresh token is in HttpOnly cookie
-      saveTokens(accessToken, ''); // Empty string for refresh token
-      dispatch(setTokens({ accessToken, refreshToken: '' }));
-      dispatch(setUser(user));
+      await establishSession(dispatch, user, accessToken, tokenStorageType);
+      dispatch(mergeGuestCart());
+      dispatch(mergeGuestWishlist());
+
+      return { user, mfaRequired: false };
+    } catch (error: unknown) {
+      const authError = normalizeError(error, 'Login failed');
+      dispatch(setError(authError));
+      return rejectWithValue(authError);
+    }
+  }
+);
+
+// Complete a login that requires a second factor (TOTP or recovery code)
+export const verifyMfaLogin = createAsyncThunk<
+  User,
+  MfaVerification,
+  { state: RootState; rejectValue: AuthError }
+>(
+  'auth/verifyMfa',
+  async ({ code, method }, { dispatch, getState, rejectWithValue }) => {
+    const challenge = getState().auth.mfaChallenge;
+
+    if (!challenge) {
+      const authError: AuthError = {
+        type: AuthErrorType.UNAUTHENTICATED,
+        message: 'Your sign-in attempt has expired. Please log in again.',
+      };
+      dispatch(setError(authError));
+      return rejectWithValue(authError);
+    }
+
+    try {
+      dispatch(setStatus(AuthStatus.LOADING));
+
+      const { data, errors } = await apolloClient.mutate({
+        mutation: VERIFY_MFA_MUTATION,
+        variables: { challengeToken: challenge.challengeToken, code, method },
+      });
+
+      if (errors && errors.length > 0) {
+        const authError = classifyGraphQLErrors(errors);
+        // The challenge stays in state so the user can retry with another code
+        dispatch(setError(authError));
+        return rejectWithValue(authError);
+      }
+
+      const { user, accessToken } = data.verifyMfa;
+      await establishSession(dispatch, user, accessToken, challenge.tokenStorageType);
+      dispatch(mergeGuestCart());
+      dispatch(mergeGuestWishlist());
 
       return user;
-    } catch (error: any) {
-      const errorMessage = error.message || 'Login failed';
-      dispatch(setError({ type: AuthErrorType.NETWORK_ERROR, message: errorMessage }));
-      return rejectWithValue(errorMessage);
+    } catch (error: unknown) {
+      const authError = normalizeError(error, 'Verification failed');
+      dispatch(setError(authError));
+      return rejectWithValue(authError);
+    }
+  }
+);
+
+// Exchange an OAuth authorization code (with its PKCE verifier) for a session
+export const loginWithOAuth = createAsyncThunk<
+  OAuthLoginResult,
+  OAuthCodeExchange,
+  { rejectValue: AuthError }
+>(
+  'auth/oauthLogin',
+  async ({ tokenStorageType, ...exchange }, { dispatch, rejectWithValue }) => {
+    try {
+      dispatch(setStatus(AuthStatus.LOADING));
+
+      const { data, errors } = await apolloClient.mutate({
+        mutation: OAUTH_LOGIN_MUTATION,
+        variables: exchange,
+      });
+
+      if (errors && errors.length > 0) {
+        const authError = classifyGraphQLErrors(errors);
+        dispatch(setError(authError));
+        return rejectWithValue(authError);
+      }
+
+      const { user, accessToken, mfaRequired, challengeToken, linkRequired, linkToken, email } =
+        data.oauthLogin;
+
+      if (linkRequired) {
+        dispatch(setStatus(AuthStatus.UNAUTHENTICATED));
+        return {
+          user: null,
+          mfaRequired: false,
+          linkRequest: { linkToken, email, tokenStorageType },
+        };
+      }
+
+      if (mfaRequired) {
+        dispatch(setMfaChallenge({ challengeToken, tokenStorageType }));
+        return { user: null, mfaRequired: true, linkRequest: null };
+      }
+
+      await establishSession(dispatch, user, accessToken, tokenStorageType);
+      dispatch(mergeGuestCart());
+      dispatch(mergeGuestWishlist());
+
+      return { user, mfaRequired: false, linkRequest: null };
+    } catch (error: unknown) {
+      const authError = normalizeError(error, 'Sign-in failed');
+      dispatch(setError(authError));
+      return rejectWithValue(authError);
+    }
+  }
+);
+
+// Link a social identity to the existing account after the user proves ownership
+export const confirmOAuthLink = createAsyncThunk<
+  User,
+  OAuthLinkConfirmation,
+  { rejectValue: AuthError }
+>(
+  'auth/confirmOAuthLink',
+  async ({ linkToken, password, tokenStorageType }, { dispatch, rejectWithValue }) => {
+    try {
+      dispatch(setStatus(AuthStatus.LOADING));
+
+      const { data, errors } = await apolloClient.mutate({
+        mutation: LINK_OAUTH_ACCOUNT_MUTATION,
+        variables: { linkToken, password },
+      });
+
+      if (errors && errors.length > 0) {
+        const authError = classifyGraphQLErrors(errors);
+        dispatch(setError(authError));
+        return rejectWithValue(authError);
+      }
+
+      const { user, accessToken } = data.linkOAuthAccount;
+      await establishSession(dispatch, user, accessToken, tokenStorageType);
+      dispatch(mergeGuestCart());
+      dispatch(mergeGuestWishlist());
+
+      return user;
+    } catch (error: unknown) {
+      const authError = normalizeError(error, 'Account linking failed');
+      dispatch(setError(authError));
+      return rejectWithValue(authError);
     }
   }
 );
 
 // Register user thunk
-export const registerUser = createAsyncThunk<User, RegisterData>(
+export const registerUser = createAsyncThunk<User, RegisterData, { rejectValue: AuthError }>(
   'auth/register',
   async (registerData, { dispatch, rejectWithValue }) => {
     try {
@@ -64,9 +333,9 @@ export const registerUser = createAsyncThunk<User, RegisterData>(
       });
 
       if (errors && errors.length > 0) {
-        const errorMessage = errors[0].message;
-        dispatch(setError({ type: AuthErrorType.INVALID_CREDENTIALS, message: errorMessage }));
-        return rejectWithValue(errorMessage);
+        const authError = classifyGraphQLErrors(errors);
+        dispatch(setError(authError));
+        return rejectWithValue(authError);
       }
 
       const { user } = data.register;
@@ -76,10 +345,10 @@ export const registerUser = createAsyncThunk<User, RegisterData>(
       dispatch(setStatus(AuthStatus.UNAUTHENTICATED));
 
       return user;
-    } catch (error: any) {
-      const errorMessage = error.message || 'Registration failed';
-      dispatch(setError({ type: AuthErrorType.NETWORK_ERROR, message: errorMessage }));
-      return rejectWithValue(errorMessage);
+    } catch (error: unknown) {
+      const authError = normalizeError(error, 'Registration failed');
+      dispatch(setError(authError));
+      return rejectWithValue(authError);
     }
   }
 );
@@ -97,9 +366,15 @@ export const logoutUser = createAsyncThunk<void, void>(
       console.error('Logout mutation failed:', error);
       // Continue with local cleanup even if mutation fails
     }
-    
+
+    stopTokenRenewal();
     clearTokens();
     dispatch(clearAuth());
+    // The account's cart and wishlist stay on the server; none of it is kept in this browser
+    dispatch(clearCart());
+    dispatch(clearOrderUpdates());
+    dispatch(clearWishlist());
+    await releaseApolloCache();
   }
 );
 
@@ -109,13 +384,17 @@ export const initializeAuth = createAsyncThunk<User | null, void>(
   async (_, { dispatch }) => {
     const token = getAccessToken();
 
-    if (!token) {
+    // No token and no recorded backend means there is no session to restore
+    if (!token && !getTokenStorageType()) {
       dispatch(setStatus(AuthStatus.UNAUTHENTICATED));
       return null;
     }
 
-    // Restore access token to Redux state (refresh token is in HttpOnly cookie)
-    dispatch(setTokens({ accessToken: token, refreshToken: '' }));
+    // Restore access token to Redux state (refresh token is in HttpOnly cookie).
+    // A memory-only token is gone after a reload; refreshLink renews it from the cookie.
+    if (token) {
+      dispatch(setTokens({ accessToken: token }));
+    }
 
     try {
       const { data } = await apolloClient.query({
@@ -123,12 +402,96 @@ export const initializeAuth = createAsyncThunk<User | null, void>(
         fetchPolicy: 'network-only',
       });
 
+      await claimApolloCache(data.me.id);
       dispatch(setUser(data.me));
+      startTokenRenewal(TOKEN_RENEWAL_OPTIONS);
+      dispatch(mergeGuestCart());
+      dispatch(mergeGuestWishlist());
       return data.me;
     } catch (error) {
-      clearTokens();
+      // A rejected refresh has already ended the session everywhere (see refreshLink). Any
+      // other failure, e.g. no connection, is local to this tab: other tabs keep their session.
+      console.error('Failed to restore session:', error);
+      stopTokenRenewal();
+      clearTabTokens();
       dispatch(clearAuth());
       return null;
     }
   }
 );
+
+// Re-read the signed-in user after server-side changes (e.g. a verified email change)
+export const refreshCurrentUser = createAsyncThunk<User | null, void>(
+  'auth/refreshCurrentUser',
+  async (_, { dispatch }) => {
+    try {
+      const { data } = await apolloClient.query({
+        query: ME_QUERY,
+        fetchPolicy: 'network-only',
+      });
+
+      dispatch(setUser(data.me));
+      return data.me;
+    } catch (error) {
+      console.error('Failed to refresh current user:', error);
+      return null;
+    }
+  }
+);
+
+// Apply a login, logout or token refresh that happened in another tab
+export const syncSession = createAsyncThunk<void, SessionEvent, { state: RootState }>(
+  'auth/syncSession',
+  async (event, { dispatch }) => {
+    switch (event.type) {
+      case SessionEventType.LOGIN: {
+        await claimApolloCache(event.userId);
+
+        // A "Remember me" token is shared through localStorage; otherwise this tab has none
+        // yet and refreshLink gets one from the refresh cookie when ME_QUERY is rejected
+        const token = getAccessToken();
+        if (token) {
+          dispatch(setTokens({ accessToken: token }));
+        }
+
+        try {
+          const { data } = await apolloClient.query({
+            query: ME_QUERY,
+            fetchPolicy: 'network-only',
+          });
+
+          dispatch(setUser(data.me));
+        } catch (error) {
+          console.error('Failed to apply sign-in from another tab:', error);
+          return;
+        }
+
+        startTokenRenewal(TOKEN_RENEWAL_OPTIONS);
+        dispatch(mergeGuestCart());
+        dispatch(mergeGuestWishlist());
+        break;
+      }
+
+      case SessionEventType.TOKEN_REFRESHED: {
+        // Only a shared ("Remember me") token changes here; other tabs keep renewing their own
+        const token = getAccessToken();
+        if (token) {
+          dispatch(setTokens({ accessToken: token }));
+        }
+        break;
+      }
+
+      case SessionEventType.LOGOUT:
+        // The signing-out tab has cleared localStorage; clearing it again here could wipe a
+        // sign-in that has happened since
+        stopTokenRenewal();
+        clearTabTokens();
+        dispatch(clearAuth());
+        dispatch(clearCart());
+        dispatch(clearOrderUpdates());
+        dispatch(clearWishlist());
+        await releaseApolloCache();
+        break;
+    }
+  }
+);
@@ -0,0 +1,107 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import type { Dispatch } from '@reduxjs/toolkit';
+import { apolloClient } from '../../apollo/client';
+import { MY_CART_QUERY, SAVE_CART_MUTATION } from '../../graphql/operations';
+import {
+  addItem,
+  mergeCartItems,
+  removeItem,
+  setCartItems,
+  setCartMerged,
+  updateItemQuantity,
+} from '../slices/cartSlice';
+import type { CartItem, CartLineKey, CartQuantityUpdate } from '../slices/cartSlice';
+import { clearGuestCart } from '../../utilities/cartStorage';
+import { createServerListSync } from './serverListSync';
+import type { RootState } from '../store';
+
+// Interfaces
+interface ServerCart {
+  id: string;
+  items: CartItem[];
+}
+
+// Strip cache metadata (__typename) and price snapshots; the server prices each line itself
+function toCartItemInput({ productId, variantId, quantity }: CartItem): CartQuantityUpdate {
+  return { productId, variantId, quantity };
+}
+
+function withoutTypename(items: ReadonlyArray<CartItem & { __typename?: string }>): CartItem[] {
+  return items.map(({ __typename: _typename, ...item }) => item);
+}
+
+async function saveServerCart(items: ReadonlyArray<CartItem>): Promise<CartItem[]> {
+  const { data } = await apolloClient.mutate({
+    mutation: SAVE_CART_MUTATION,
+    variables: { items: items.map(toCartItemInput) },
+  });
+  return withoutTypename((data?.saveCart as ServerCart).items);
+}
+
+async function fetchServerCart(): Promise<CartItem[]> {
+  const { data } = await apolloClient.query({
+    query: MY_CART_QUERY,
+    fetchPolicy: 'network-only',
+  });
+  return withoutTypename((data?.myCart as ServerCart | null)?.items ?? []);
+}
+
+// Server responses carry server-priced lines, which replace the local snapshots
+const cartSync = createServerListSync<CartItem>({
+  name: 'cart',
+  selectList: (state) => state.cart,
+  fetchServerItems: fetchServerCart,
+  saveServerItems: saveServerCart,
+  mergeItems: mergeCartItems,
+  setItems: setCartItems,
+  setMerged: setCartMerged,
+  clearGuestStorage: clearGuestCart,
+});
+
+function syncSignedInCart(getState: () => RootState, dispatch: Dispatch): Promise<void> {
+  return cartSync.sync(getState, dispatch);
+}
+
+export const addToCart = createAsyncThunk<void, CartItem, { state: RootState }>(
+  'cart/add',
+  async (item, { dispatch, getState }) => {
+    dispatch(addItem(item));
+    await syncSignedInCart(getState, dispatch);
+  }
+);
+
+// Several lines at once (e.g. "buy again") with a single save
+export const addItemsToCart = createAsyncThunk<void, CartItem[], { state: RootState }>(
+  'cart/addMany',
+  async (items, { dispatch, getState }) => {
+    items.forEach((item) => dispatch(addItem(item)));
+    await syncSignedInCart(getState, dispatch);
+  }
+);
+
+export const changeCartQuantity = createAsyncThunk<void, CartQuantityUpdate, { state: RootState }>(
+  'cart/changeQuantity',
+  async (update, { dispatch, getState }) => {
+    dispatch(updateItemQuantity(update));
+    await syncSignedInCart(getState, dispatch);
+  }
+);
+
+export const removeFromCart = createAsyncThunk<void, CartLineKey, { state: RootState }>(
+  'cart/remove',
+  async (line, { dispatch, getState }) => {
+    dispatch(removeItem(line));
+    await syncSignedInCart(getState, dispatch);
+  }
+);
+
+// After sign-in: combine the guest cart with the account's saved cart, then save the result.
+// With no guest items this simply loads the account cart.
+export const mergeGuestCart = createAsyncThunk<void, void>(
+  'cart/mergeGuestCart',
+  async (_, { dispatch, getState }) => {
+    // Not typed through the thunk config: authThunks dispatches this, and the store type
+    // depends on authThunks
+    await cartSync.mergeGuestItems(getState as () => RootState, dispatch);
+  }
+);
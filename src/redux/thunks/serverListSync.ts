@@ -0,0 +1,92 @@
+import type { Dispatch, UnknownAction } from '@reduxjs/toolkit';
+import type { RootState } from '../store';
+
+// Interfaces
+// A Redux list (cart, wishlist) that a signed-in user keeps on the server
+export interface SyncedListState<T> {
+  items: T[];
+  // True once the account's saved list has been merged in; until then nothing is written back
+  merged: boolean;
+}
+
+export interface ServerListSyncOptions<T> {
+  // Used in log messages, e.g. "cart"
+  name: string;
+  selectList: (state: RootState) => SyncedListState<T>;
+  fetchServerItems: () => Promise<T[]>;
+  // Replaces the whole server list and returns it as saved
+  saveServerItems: (items: ReadonlyArray<T>) => Promise<T[]>;
+  mergeItems: (serverItems: ReadonlyArray<T>, localItems: ReadonlyArray<T>) => T[];
+  setItems: (items: T[]) => UnknownAction;
+  setMerged: (merged: boolean) => UnknownAction;
+  clearGuestStorage: () => void;
+}
+
+export interface ServerListSync {
+  sync: (getState: () => RootState, dispatch: Dispatch) => Promise<void>;
+  mergeGuestItems: (getState: () => RootState, dispatch: Dispatch) => Promise<void>;
+}
+
+// Write-through for signed-in lists. Saves replace the whole server list, so they only start
+// once the account's list has been merged in: a save made from the guest items alone would
+// delete the account's items.
+export function createServerListSync<T>(options: ServerListSyncOptions<T>): ServerListSync {
+  const { name, selectList, fetchServerItems, saveServerItems, mergeItems, setItems, setMerged } =
+    options;
+
+  // Saves run one at a time so the server sees changes in the order they were made
+  let saveQueue: Promise<void> = Promise.resolve();
+
+  // The response is applied only if nothing changed locally meanwhile; a newer save is already
+  // queued then. Guests are persisted to localStorage by a store subscriber instead.
+  const sync = (getState: () => RootState, dispatch: Dispatch): Promise<void> => {
+    saveQueue = saveQueue.then(async () => {
+      const state = getState();
+      const { items, merged } = selectList(state);
+      if (!state.auth.user || !merged) {
+        return;
+      }
+
+      try {
+        const saved = await saveServerItems(items);
+        if (selectList(getState()).items === items) {
+          dispatch(setItems(saved));
+        }
+      } catch (error) {
+        console.error(`Failed to save ${name}:`, error);
+      }
+    });
+
+    return saveQueue;
+  };
+
+  // After sign-in: combine the items on screen (the guest list, plus anything added while this
+  // runs) with the account's saved list, then save the result. If it fails the list stays
+  // unsynced and the guest items stay in storage, so merging is retried at the next sign-in.
+  const mergeGuestItems = async (getState: () => RootState, dispatch: Dispatch): Promise<void> => {
+    dispatch(setMerged(false));
+
+    try {
+      const serverItems = await fetchServerItems();
+      const localItems = selectList(getState()).items;
+      const items =
+        localItems.length > 0
+          ? await saveServerItems(mergeItems(serverItems, localItems))
+          : serverItems;
+
+      // Changes made during the save are kept and written through below
+      const latestItems = selectList(getState()).items;
+      dispatch(setItems(latestItems === localItems ? items : mergeItems(items, latestItems)));
+      dispatch(setMerged(true));
+      options.clearGuestStorage();
+
+      if (latestItems !== localItems) {
+        await sync(getState, dispatch);
+      }
+    } catch (error) {
+      console.error(`Failed to merge guest ${name}:`, error);
+    }
+  };
+
+  return { sync, mergeGuestItems };
+}
@@ -0,0 +1,126 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import type { Dispatch } from '@reduxjs/toolkit';
+import { apolloClient } from '../../apollo/client';
+import { MY_WISHLIST_QUERY, SAVE_WISHLIST_MUTATION } from '../../graphql/operations';
+import {
+  addWishlistItem,
+  removeWishlistItem,
+  selectIsInWishlist,
+  setWishlistItems,
+  setWishlistMerged,
+} from '../slices/wishlistSlice';
+import type { WishlistItem } from '../slices/wishlistSlice';
+import type { CartItem } from '../slices/cartSlice';
+import { addToCart } from './cartThunks';
+import { clearGuestWishlist } from '../../utilities/wishlistStorage';
+import { createServerListSync } from './serverListSync';
+import type { RootState } from '../store';
+
+// Interfaces
+interface ServerWishlist {
+  id: string;
+  items: WishlistItem[];
+}
+
+interface WishlistItemInput {
+  productId: string;
+  savedPrice: number;
+  addedAt: string;
+}
+
+// The server fills in name, slug and image itself; the saved price is kept as the shopper saw it
+function toWishlistItemInput({ productId, savedPrice, addedAt }: WishlistItem): WishlistItemInput {
+  return { productId, savedPrice, addedAt };
+}
+
+function withoutTypename(
+  items: ReadonlyArray<WishlistItem & { __typename?: string }>
+): WishlistItem[] {
+  return items.map(({ __typename: _typename, ...item }) => item);
+}
+
+// Account items come first and keep their snapshot; guest items not already saved are added
+export function mergeWishlistItems(
+  serverItems: ReadonlyArray<WishlistItem>,
+  guestItems: ReadonlyArray<WishlistItem>
+): WishlistItem[] {
+  const merged = [...serverItems];
+
+  guestItems.forEach((guestItem) => {
+    if (!merged.some((item) => item.productId === guestItem.productId)) {
+      merged.push(guestItem);
+    }
+  });
+
+  return merged;
+}
+
+async function saveServerWishlist(items: ReadonlyArray<WishlistItem>): Promise<WishlistItem[]> {
+  const { data } = await apolloClient.mutate({
+    mutation: SAVE_WISHLIST_MUTATION,
+    variables: { items: items.map(toWishlistItemInput) },
+  });
+  return withoutTypename((data?.saveWishlist as ServerWishlist).items);
+}
+
+async function fetchServerWishlist(): Promise<WishlistItem[]> {
+  const { data } = await apolloClient.query({
+    query: MY_WISHLIST_QUERY,
+    fetchPolicy: 'network-only',
+  });
+  return withoutTypename((data?.myWishlist as ServerWishlist | null)?.items ?? []);
+}
+
+const wishlistSync = createServerListSync<WishlistItem>({
+  name: 'wishlist',
+  selectList: (state) => state.wishlist,
+  fetchServerItems: fetchServerWishlist,
+  saveServerItems: saveServerWishlist,
+  mergeItems: mergeWishlistItems,
+  setItems: setWishlistItems,
+  setMerged: setWishlistMerged,
+  clearGuestStorage: clearGuestWishlist,
+});
+
+function syncSignedInWishlist(getState: () => RootState, dispatch: Dispatch): Promise<void> {
+  return wishlistSync.sync(getState, dispatch);
+}
+
+// Heart button: saves the product, or removes it when it is already saved
+export const toggleWishlistItem = createAsyncThunk<void, WishlistItem, { state: RootState }>(
+  'wishlist/toggle',
+  async (item, { dispatch, getState }) => {
+    if (selectIsInWishlist(getState(), item.productId)) {
+      dispatch(removeWishlistItem(item.productId));
+    } else {
+      dispatch(addWishlistItem(item));
+    }
+    await syncSignedInWishlist(getState, dispatch);
+  }
+);
+
+export const removeFromWishlist = createAsyncThunk<void, string, { state: RootState }>(
+  'wishlist/remove',
+  async (productId, { dispatch, getState }) => {
+    dispatch(removeWishlistItem(productId));
+    await syncSignedInWishlist(getState, dispatch);
+  }
+);
+
+// The cart line is priced from the current product, not the wishlist snapshot
+export const moveWishlistItemToCart = createAsyncThunk<void, CartItem, { state: RootState }>(
+  'wishlist/moveToCart',
+  async (cartItem, { dispatch, getState }) => {
+    await dispatch(addToCart(cartItem));
+    dispatch(removeWishlistItem(cartItem.productId));
+    await syncSignedInWishlist(getState, dispatch);
+  }
+);
+
+// After sign-in: add the guest wishlist to the account's saved one, like mergeGuestCart
+export const mergeGuestWishlist = createAsyncThunk<void, void>(
+  'wishlist/mergeGuestWishlist',
+  async (_, { dispatch, getState }) => {
+    await wishlistSync.mergeGuestItems(getState as () => RootState, dispatch);
+  }
+);
@@ -0,0 +1,36 @@
+import { StorageKey } from './tokenStorage';
+
+// Constants
+const WRITE_THROTTLE_MS = 5_000 as const;
+
+export const ACTIVITY_EVENTS: ReadonlyArray<keyof WindowEventMap> = [
+  'mousedown',
+  'mousemove',
+  'keydown',
+  'scroll',
+  'touchstart',
+  'wheel',
+] as const;
+
+let lastWrite = 0;
+
+// Activity is stored in localStorage so input in any tab keeps every tab's session alive
+export function recordActivity(force: boolean = false): void {
+  const now = Date.now();
+
+  if (!force && now - lastWrite < WRITE_THROTTLE_MS) {
+    return;
+  }
+
+  lastWrite = now;
+  try {
+    localStorage.setItem(StorageKey.LAST_ACTIVITY, String(now));
+  } catch {
+    // Storage may be unavailable (private mode quota); idle time then resets per tab only
+  }
+}
+
+export function getLastActivity(): number {
+  const value = Number(localStorage.getItem(StorageKey.LAST_ACTIVITY));
+  return Number.isFinite(value) && value > 0 ? value : lastWrite || Date.now();
+}
@@ -0,0 +1,145 @@
+import { getCountryMetadata } from '../config/countries';
+
+// Enums
+export enum AddressDefault {
+  SHIPPING = 'SHIPPING',
+  BILLING = 'BILLING',
+}
+
+// Interfaces
+export interface AddressInput {
+  fullName: string;
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  phone: string;
+}
+
+export interface Address extends AddressInput {
+  id: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+}
+
+// Constants
+export const EMPTY_ADDRESS: AddressInput = {
+  fullName: '',
+  line1: '',
+  line2: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  country: 'US',
+  phone: '',
+};
+
+export const ADDRESS_DEFAULT_LABELS: Record<AddressDefault, string> = {
+  [AddressDefault.SHIPPING]: 'Default shipping',
+  [AddressDefault.BILLING]: 'Default billing',
+};
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,20}$/;
+
+// Drops the id, flags and cache metadata so a saved address can be sent as AddressInput
+export function toAddressInput(address: AddressInput): AddressInput {
+  const { fullName, line1, line2, city, region, postalCode, country, phone } = address;
+  return {
+    fullName,
+    line1,
+    line2: line2 ?? '',
+    city,
+    region: region ?? '',
+    postalCode,
+    country,
+    phone: phone ?? '',
+  };
+}
+
+export function isDefaultAddress(address: Address, kind: AddressDefault): boolean {
+  return kind === AddressDefault.SHIPPING ? address.isDefaultShipping : address.isDefaultBilling;
+}
+
+// The default for kind, or the first address when none is marked
+export function getDefaultAddress(
+  addresses: ReadonlyArray<Address>,
+  kind: AddressDefault
+): Address | undefined {
+  return addresses.find((address) => isDefaultAddress(address, kind)) ?? addresses[0];
+}
+
+function normalizeForComparison(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+// A saved address with the same fields (ignoring case and spacing), e.g. an order's snapshot
+export function findMatchingAddress(
+  addresses: ReadonlyArray<Address>,
+  input: AddressInput
+): Address | undefined {
+  const target = toAddressInput(input);
+  const fields = Object.keys(target) as Array<keyof AddressInput>;
+
+  return addresses.find((address) =>
+    fields.every(
+      (field) =>
+        normalizeForComparison(address[field] ?? '') === normalizeForComparison(target[field])
+    )
+  );
+}
+
+// Country-aware check against the bundled metadata (config/countries.ts); returns messages
+// keyed by field name like GraphQL validation errors
+export function validateAddress(address: AddressInput): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const country = getCountryMetadata(address.country);
+  const required: ReadonlyArray<keyof AddressInput> = ['fullName', 'line1', 'city', 'postalCode'];
+
+  required.forEach((field) => {
+    if (!address[field].trim()) {
+      errors[field] = 'Required';
+    }
+  });
+
+  if (!country) {
+    errors.country = 'We do not ship to this country';
+    return errors;
+  }
+
+  if (country.regionRequired && !address.region.trim()) {
+    errors.region = `${country.regionLabel} is required`;
+  }
+
+  const postalCode = address.postalCode.trim();
+  if (postalCode && country.postalCodePattern && !country.postalCodePattern.test(postalCode)) {
+    errors.postalCode = `Enter a valid ${country.postalCodeLabel.toLowerCase()}, e.g. ${country.postalCodeExample}`;
+  }
+
+  const phone = address.phone.trim();
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    errors.phone = 'Enter a valid phone number';
+  }
+
+  return errors;
+}
+
+// Server validation paths look like "input.postalCode"; the form keys errors by field name
+export function toAddressFieldErrors(fieldErrors: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(fieldErrors).map(([path, message]) => [path.split('.').pop() ?? path, message])
+  );
+}
+
+export function formatAddress(address: AddressInput): string {
+  return [
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postalCode].filter(Boolean).join(' '),
+    getCountryMetadata(address.country)?.name ?? address.country,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,53 @@
+import type { CartItem } from '../redux/slices/cartSlice';
+import type { RootState } from '../redux/store';
+import { StorageKey } from './tokenStorage';
+
+let lastPersistedItems: CartItem[] | null = null;
+
+function isCartItem(value: unknown): value is CartItem {
+  const item = value as CartItem;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof item.productId === 'string' &&
+    typeof item.quantity === 'number' &&
+    typeof item.unitPrice === 'number'
+  );
+}
+
+// Guest carts live in localStorage so they survive reloads and new tabs
+export function loadGuestCart(): CartItem[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(StorageKey.GUEST_CART) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isCartItem) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGuestCart(items: ReadonlyArray<CartItem>): void {
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(StorageKey.GUEST_CART);
+    } else {
+      localStorage.setItem(StorageKey.GUEST_CART, JSON.stringify(items));
+    }
+  } catch (error) {
+    console.error('Failed to save guest cart:', error);
+  }
+}
+
+export function clearGuestCart(): void {
+  localStorage.removeItem(StorageKey.GUEST_CART);
+}
+
+// Store subscriber: writes the cart while no one is signed in. A signed-in user's cart is
+// saved on the server instead and never left behind in this browser.
+export function persistGuestCart(state: RootState): void {
+  if (state.auth.user || state.cart.items === lastPersistedItems) {
+    return;
+  }
+
+  lastPersistedItems = state.cart.items;
+  saveGuestCart(state.cart.items);
+}
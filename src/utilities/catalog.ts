@@ -0,0 +1,193 @@
+// Enums
+export enum ProductSort {
+  NEWEST = 'NEWEST',
+  PRICE_ASC = 'PRICE_ASC',
+  PRICE_DESC = 'PRICE_DESC',
+  NAME_ASC = 'NAME_ASC',
+}
+
+// Values double as ProductVariant field names
+export enum VariantOption {
+  SIZE = 'size',
+  COLOR = 'color',
+}
+
+export enum CatalogParam {
+  CATEGORY = 'category',
+  MIN_PRICE = 'minPrice',
+  MAX_PRICE = 'maxPrice',
+  IN_STOCK = 'inStock',
+  SORT = 'sort',
+  QUERY = 'q',
+}
+
+// Interfaces
+export interface Category {
+  id: string;
+  slug: string;
+  name: string;
+}
+
+export interface ProductSummary {
+  id: string;
+  slug: string;
+  name: string;
+  price: number;
+  compareAtPrice: number | null;
+  currency: string;
+  thumbnailUrl: string | null;
+  inStock: boolean;
+  category: Category | null;
+}
+
+export interface ProductImage {
+  id: string;
+  url: string;
+  alt: string | null;
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  price: number;
+  compareAtPrice: number | null;
+  inStock: boolean;
+}
+
+export interface ProductDetail extends ProductSummary {
+  description: string | null;
+  images: ProductImage[];
+  // Root-first chain of categories, e.g. Clothing > Shirts
+  categoryPath: Category[];
+  variants: ProductVariant[];
+}
+
+// Mirrors the ProductFilterInput GraphQL input
+export interface ProductFilter {
+  // Free-text search over product names and descriptions
+  search?: string;
+  categorySlug?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+}
+
+export interface CatalogView {
+  filter: ProductFilter;
+  sort: ProductSort;
+}
+
+// Constants
+export const CATALOG_PAGE_SIZE = 24 as const;
+export const DEFAULT_PRODUCT_SORT = ProductSort.NEWEST;
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  [ProductSort.NEWEST]: 'Newest',
+  [ProductSort.PRICE_ASC]: 'Price: Low to High',
+  [ProductSort.PRICE_DESC]: 'Price: High to Low',
+  [ProductSort.NAME_ASC]: 'Name: A to Z',
+};
+
+function parsePrice(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+function isProductSort(value: string | null): value is ProductSort {
+  return Object.values(ProductSort).includes(value as ProductSort);
+}
+
+// The URL is the source of truth for the catalog view so any view can be shared or bookmarked
+export function parseCatalogView(params: URLSearchParams): CatalogView {
+  const sort = params.get(CatalogParam.SORT);
+  const filter: ProductFilter = {};
+
+  const search = params.get(CatalogParam.QUERY)?.trim();
+  if (search) {
+    filter.search = search;
+  }
+
+  const categorySlug = params.get(CatalogParam.CATEGORY);
+  if (categorySlug) {
+    filter.categorySlug = categorySlug;
+  }
+
+  const minPrice = parsePrice(params.get(CatalogParam.MIN_PRICE));
+  if (minPrice !== undefined) {
+    filter.minPrice = minPrice;
+  }
+
+  const maxPrice = parsePrice(params.get(CatalogParam.MAX_PRICE));
+  if (maxPrice !== undefined) {
+    filter.maxPrice = maxPrice;
+  }
+
+  if (params.get(CatalogParam.IN_STOCK) === 'true') {
+    filter.inStock = true;
+  }
+
+  return { filter, sort: isProductSort(sort) ? sort : DEFAULT_PRODUCT_SORT };
+}
+
+// Set or remove one catalog param, leaving unrelated params (e.g. a search query) untouched
+export function updateCatalogParam(
+  params: URLSearchParams,
+  param: CatalogParam,
+  value: string | null
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+
+  if (value === null || value === '') {
+    next.delete(param);
+  } else {
+    next.set(param, value);
+  }
+  return next;
+}
+
+// The search query is not a filter: clearing filters keeps the current search
+export function clearCatalogFilters(params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  [
+    CatalogParam.CATEGORY,
+    CatalogParam.MIN_PRICE,
+    CatalogParam.MAX_PRICE,
+    CatalogParam.IN_STOCK,
+  ].forEach((param) => next.delete(param));
+  return next;
+}
+
+export function hasCatalogFilters({ search: _search, ...filter }: ProductFilter): boolean {
+  return Object.keys(filter).length > 0;
+}
+
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
+
+// Distinct non-null values of one variant option, in the order they first appear
+export function getVariantOptionValues(
+  variants: ReadonlyArray<ProductVariant>,
+  option: VariantOption
+): ReadonlyArray<string> {
+  return Array.from(
+    new Set(variants.map((variant) => variant[option]).filter((value): value is string => !!value))
+  );
+}
+
+export function findVariant(
+  variants: ReadonlyArray<ProductVariant>,
+  size: string | null,
+  color: string | null
+): ProductVariant | null {
+  return variants.find((variant) => variant.size === size && variant.color === color) ?? null;
+}
+
+export function getVariantLabel(variant: Pick<ProductVariant, 'size' | 'color'>): string | null {
+  return [variant.size, variant.color].filter(Boolean).join(' / ') || null;
+}
@@ -0,0 +1,55 @@
+import type { OrderStatus } from './orders';
+
+// Enums
+export enum CheckoutStep {
+  SHIPPING = 'SHIPPING',
+  DELIVERY = 'DELIVERY',
+  PAYMENT = 'PAYMENT',
+  REVIEW = 'REVIEW',
+}
+
+// Interfaces
+export interface DeliveryOption {
+  id: string;
+  name: string;
+  description: string | null;
+  cost: number;
+  currency: string;
+  estimatedDays: number | null;
+}
+
+export interface PlacedOrder {
+  id: string;
+  number: string;
+  status: OrderStatus;
+  email: string;
+  total: number;
+  currency: string;
+}
+
+// Constants
+export const CHECKOUT_STEPS: ReadonlyArray<CheckoutStep> = [
+  CheckoutStep.SHIPPING,
+  CheckoutStep.DELIVERY,
+  CheckoutStep.PAYMENT,
+  CheckoutStep.REVIEW,
+];
+
+export const CHECKOUT_STEP_LABELS: Record<CheckoutStep, string> = {
+  [CheckoutStep.SHIPPING]: 'Shipping',
+  [CheckoutStep.DELIVERY]: 'Delivery',
+  [CheckoutStep.PAYMENT]: 'Payment',
+  [CheckoutStep.REVIEW]: 'Review',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+// One key per order attempt: it is reused for retries of the same attempt and replaced only
+// when what is being ordered changes
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,76 @@
+// Bundled blocklist of the most frequently leaked passwords (compared case-insensitively).
+// Kept local so checking a password never sends it anywhere.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '000000',
+  '111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123qwe',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  '654321',
+  '666666',
+  '7777777',
+  '888888',
+  '987654321',
+  'aa123456',
+  'abc123',
+  'abcd1234',
+  'access',
+  'admin',
+  'admin123',
+  'administrator',
+  'asdf1234',
+  'asdfgh',
+  'asdfghjkl',
+  'baseball',
+  'batman',
+  'charlie',
+  'chocolate',
+  'computer',
+  'dragon',
+  'football',
+  'freedom',
+  'hello',
+  'hello123',
+  'iloveyou',
+  'letmein',
+  'login',
+  'master',
+  'michael',
+  'monkey',
+  'mustang',
+  'p@ssw0rd',
+  'passw0rd',
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'password1234',
+  'princess',
+  'qazwsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'shadow',
+  'shopstore',
+  'sunshine',
+  'superman',
+  'trustno1',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'whatever',
+  'zaq12wsx',
+]);
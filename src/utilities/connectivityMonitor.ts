@@ -0,0 +1,121 @@
+import { store } from '../redux/store';
+import { setOnline, setServerReachable } from '../redux/slices/connectivitySlice';
+import { runtimeConfig } from '../config/runtimeConfig';
+
+// Constants
+const PROBE_INITIAL_DELAY_MS = 2_000 as const;
+const PROBE_MAX_DELAY_MS = 60_000 as const;
+const PROBE_TIMEOUT_MS = 5_000 as const;
+const HEALTH_CHECK_QUERY = JSON.stringify({ query: '{ __typename }' });
+
+// Monitor state
+let probeTimer: ReturnType<typeof setTimeout> | null = null;
+let probeAttempt = 0;
+let running = false;
+
+function clearProbeTimer(): void {
+  if (probeTimer !== null) {
+    clearTimeout(probeTimer);
+    probeTimer = null;
+  }
+}
+
+// Full jitter: a random delay up to the exponential cap spreads reconnects after an outage
+export function getBackoffDelay(attempt: number, initialMs: number, maxMs: number): number {
+  return Math.round(Math.random() * Math.min(maxMs, initialMs * 2 ** attempt));
+}
+
+// Any HTTP response below 500 means the server is up, even if it rejected the probe itself
+async function probeServerHealth(): Promise<boolean> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+  try {
+    const response = runtimeConfig.healthCheckEndpoint
+      ? await fetch(runtimeConfig.healthCheckEndpoint, {
+          cache: 'no-store',
+          signal: controller.signal,
+        })
+      : await fetch(runtimeConfig.graphqlEndpoint, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: HEALTH_CHECK_QUERY,
+          credentials: 'same-origin',
+          signal: controller.signal,
+        });
+    return response.status < 500;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function scheduleProbe(): void {
+  clearProbeTimer();
+
+  if (!running || !navigator.onLine) {
+    return;
+  }
+
+  const delay = getBackoffDelay(probeAttempt, PROBE_INITIAL_DELAY_MS, PROBE_MAX_DELAY_MS);
+  probeAttempt += 1;
+  probeTimer = setTimeout(() => {
+    void checkServerHealth();
+  }, delay);
+}
+
+// Probe the server now; keeps probing with backoff until it answers
+export async function checkServerHealth(): Promise<boolean> {
+  clearProbeTimer();
+  const reachable = await probeServerHealth();
+  store.dispatch(setServerReachable(reachable));
+
+  if (reachable) {
+    probeAttempt = 0;
+  } else {
+    scheduleProbe();
+  }
+  return reachable;
+}
+
+// Called when a request fails at the network level; probing takes over from there
+export function reportServerUnreachable(): void {
+  if (!store.getState().connectivity.isServerReachable) {
+    return;
+  }
+
+  store.dispatch(setServerReachable(false));
+  probeAttempt = 0;
+  scheduleProbe();
+}
+
+const handleOnline = (): void => {
+  store.dispatch(setOnline(true));
+  probeAttempt = 0;
+  void checkServerHealth();
+};
+
+const handleOffline = (): void => {
+  clearProbeTimer();
+  store.dispatch(setOnline(false));
+};
+
+// Track browser online/offline events for the lifetime of the app
+export function startConnectivityMonitor(): void {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  store.dispatch(setOnline(navigator.onLine));
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+}
+
+export function stopConnectivityMonitor(): void {
+  running = false;
+  clearProbeTimer();
+  window.removeEventListener('online', handleOnline);
+  window.removeEventListener('offline', handleOffline);
+}
@@ -0,0 +1,27 @@
+import { PaymentProviderId } from './payments';
+import type { PaymentDetails, PaymentToken } from './payments';
+
+// Constants
+export const FAKE_APPROVED_CARD = '4242 4242 4242 4242' as const;
+export const FAKE_DECLINED_CARD = '4000 0000 0000 0002' as const;
+const FAKE_LATENCY_MS = 600 as const;
+
+export function normalizeCardNumber(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+// Simulates a provider round trip; the development API accepts any fake_tok_ token
+export async function tokenizeFakePayment(details: PaymentDetails): Promise<PaymentToken> {
+  await new Promise((resolve) => setTimeout(resolve, FAKE_LATENCY_MS));
+
+  const cardNumber = normalizeCardNumber(details.cardNumber ?? '');
+  if (cardNumber === normalizeCardNumber(FAKE_DECLINED_CARD)) {
+    throw new Error('Your card was declined. Please use a different card.');
+  }
+
+  return {
+    provider: PaymentProviderId.FAKE,
+    token: `fake_tok_${crypto.randomUUID()}`,
+    summary: `Test card •••• ${cardNumber.slice(-4)}`,
+  };
+}
@@ -0,0 +1,96 @@
+import { getOAuthProviderConfig, OAuthProvider } from '../config/oauthProviders';
+import { DEFAULT_TOKEN_STORAGE_TYPE, StorageKey } from './tokenStorage';
+import type { TokenStorageType } from './tokenStorage';
+
+// Constants
+export const OAUTH_CALLBACK_PATH = '/auth/callback' as const;
+const RANDOM_BYTES_LENGTH = 32 as const;
+
+// Interfaces
+// Everything the callback needs to finish the flow; kept in sessionStorage across the redirect
+export interface PendingOAuthAuthorization {
+  provider: OAuthProvider;
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  redirectPath?: string;
+  tokenStorageType: TokenStorageType;
+}
+
+export interface OAuthStartOptions {
+  redirectPath?: string;
+  tokenStorageType?: TokenStorageType;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function generateRandomString(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(RANDOM_BYTES_LENGTH)));
+}
+
+// PKCE S256: the challenge is the base64url SHA-256 digest of the verifier
+async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export function getOAuthRedirectUri(): string {
+  return `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+}
+
+// Redirect the browser to the provider's authorization endpoint (authorization code + PKCE)
+export async function startOAuthSignIn(
+  provider: OAuthProvider,
+  { redirectPath, tokenStorageType = DEFAULT_TOKEN_STORAGE_TYPE }: OAuthStartOptions = {}
+): Promise<void> {
+  const config = getOAuthProviderConfig(provider);
+
+  if (!config?.clientId) {
+    throw new Error(`Sign-in with ${provider} is not configured`);
+  }
+
+  const pending: PendingOAuthAuthorization = {
+    provider,
+    state: generateRandomString(),
+    codeVerifier: generateRandomString(),
+    redirectUri: getOAuthRedirectUri(),
+    redirectPath,
+    tokenStorageType,
+  };
+
+  sessionStorage.setItem(StorageKey.OAUTH_PENDING_AUTHORIZATION, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: config.scope,
+    state: pending.state,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  window.location.assign(`${config.authorizationEndpoint}?${params.toString()}`);
+}
+
+// Returns the pending authorization only if state matches; it is removed either way (single use)
+export function consumePendingOAuthAuthorization(
+  returnedState: string | null
+): PendingOAuthAuthorization | null {
+  const raw = sessionStorage.getItem(StorageKey.OAUTH_PENDING_AUTHORIZATION);
+  sessionStorage.removeItem(StorageKey.OAUTH_PENDING_AUTHORIZATION);
+
+  if (!raw || !returnedState) {
+    return null;
+  }
+
+  try {
+    const pending = JSON.parse(raw) as PendingOAuthAuthorization;
+    return pending.state === returnedState ? pending : null;
+  } catch {
+    return null;
+  }
+}
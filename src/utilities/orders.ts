@@ -0,0 +1,114 @@
+import type { AddressInput } from './addresses';
+import type { CartItem } from '../redux/slices/cartSlice';
+
+// Enums
+export enum OrderStatus {
+  PENDING = 'PENDING',
+  PAID = 'PAID',
+  PROCESSING = 'PROCESSING',
+  SHIPPED = 'SHIPPED',
+  DELIVERED = 'DELIVERED',
+  CANCELLED = 'CANCELLED',
+  REFUNDED = 'REFUNDED',
+}
+
+// Interfaces
+export interface OrderSummary {
+  id: string;
+  number: string;
+  status: OrderStatus;
+  placedAt: string;
+  total: number;
+  currency: string;
+  itemCount: number;
+}
+
+// Line items keep the product as it was ordered, so they map straight back onto cart items
+export interface OrderLine extends CartItem {
+  id: string;
+}
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  occurredAt: string;
+  note: string | null;
+}
+
+export interface Order extends OrderSummary {
+  email: string;
+  lines: OrderLine[];
+  subtotal: number;
+  deliveryCost: number;
+  deliveryMethod: string;
+  // Snapshot taken when the order was placed; later address book edits don't change it
+  shippingAddress: AddressInput;
+  statusHistory: OrderStatusEvent[];
+  trackingUrl: string | null;
+}
+
+// Constants
+export const ORDERS_PAGE_SIZE = 10 as const;
+export const ORDER_STATUS_PARAM = 'status' as const;
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'Pending',
+  [OrderStatus.PAID]: 'Paid',
+  [OrderStatus.PROCESSING]: 'Processing',
+  [OrderStatus.SHIPPED]: 'Shipped',
+  [OrderStatus.DELIVERED]: 'Delivered',
+  [OrderStatus.CANCELLED]: 'Cancelled',
+  [OrderStatus.REFUNDED]: 'Refunded',
+};
+
+export const ORDER_STATUS_COLORS: Record<
+  OrderStatus,
+  'default' | 'info' | 'primary' | 'success' | 'error' | 'warning'
+> = {
+  [OrderStatus.PENDING]: 'default',
+  [OrderStatus.PAID]: 'info',
+  [OrderStatus.PROCESSING]: 'info',
+  [OrderStatus.SHIPPED]: 'primary',
+  [OrderStatus.DELIVERED]: 'success',
+  [OrderStatus.CANCELLED]: 'error',
+  [OrderStatus.REFUNDED]: 'warning',
+};
+
+// The path every fulfilled order follows; cancelled and refunded orders leave it
+export const FULFILMENT_STEPS: ReadonlyArray<OrderStatus> = [
+  OrderStatus.PENDING,
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+export function isOrderStatus(value: string | null): value is OrderStatus {
+  return Object.values(OrderStatus).includes(value as OrderStatus);
+}
+
+// Status filter from the URL, so a filtered list survives reloads and the back button
+export function parseOrderStatusFilter(params: URLSearchParams): OrderStatus | null {
+  const status = params.get(ORDER_STATUS_PARAM);
+  return isOrderStatus(status) ? status : null;
+}
+
+export function formatOrderDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+// Back to a plain cart item (no id or cache metadata) for "buy again"
+export function toCartItem(line: OrderLine): CartItem {
+  const { productId, slug, variantId, name, variantLabel, unitPrice, currency, thumbnailUrl } =
+    line;
+  return {
+    productId,
+    slug,
+    variantId,
+    name,
+    variantLabel,
+    unitPrice,
+    currency,
+    thumbnailUrl,
+    quantity: line.quantity,
+  };
+}
@@ -0,0 +1,77 @@
+import {
+  evaluatePassword,
+  getPasswordPolicyError,
+  PasswordRule,
+  PasswordStrength,
+  PASSWORD_MIN_LENGTH,
+} from './passwordPolicy';
+
+function failedRules(password: string, context = {}): PasswordRule[] {
+  return evaluatePassword(password, context)
+    .rules.filter(({ passed }) => !passed)
+    .map(({ rule }) => rule);
+}
+
+describe('evaluatePassword', () => {
+  it('accepts a long password with mixed characters', () => {
+    const evaluation = evaluatePassword('Correct-Horse-Battery-9');
+    expect(evaluation.isValid).toBe(true);
+    expect(evaluation.strength).toBe(PasswordStrength.STRONG);
+  });
+
+  it.each([
+    ['too short', 'Ab1!', PasswordRule.MIN_LENGTH],
+    ['missing a lowercase letter', 'ABCDEFG1', PasswordRule.LOWERCASE],
+    ['missing an uppercase letter', 'abcdefg1', PasswordRule.UPPERCASE],
+    ['missing a number', 'Abcdefgh', PasswordRule.NUMBER],
+    ['a common password', 'Password123', PasswordRule.NOT_COMMON],
+  ])('rejects a password that is %s', (_description, password, rule) => {
+    const evaluation = evaluatePassword(password);
+    expect(evaluation.isValid).toBe(false);
+    expect(failedRules(password)).toContain(rule);
+  });
+
+  it('requires the minimum length exactly', () => {
+    const base = 'Abc1'.padEnd(PASSWORD_MIN_LENGTH, 'x');
+    expect(failedRules(base)).not.toContain(PasswordRule.MIN_LENGTH);
+    expect(failedRules(base.slice(1))).toContain(PasswordRule.MIN_LENGTH);
+  });
+
+  it('rejects passwords containing the email local part or a name', () => {
+    const context = { email: 'jordan.lee@example.com', name: 'Jordan Lee' };
+    expect(failedRules('Jordan.lee2024', context)).toContain(PasswordRule.NO_PERSONAL_INFO);
+    expect(failedRules('xxJORDANxx9a', context)).toContain(PasswordRule.NO_PERSONAL_INFO);
+    expect(failedRules('Maple-Syrup-77', context)).not.toContain(PasswordRule.NO_PERSONAL_INFO);
+  });
+
+  it('ignores name parts too short to be meaningful', () => {
+    expect(failedRules('Lee-Bridge-42', { name: 'Al Ng' })).not.toContain(
+      PasswordRule.NO_PERSONAL_INFO
+    );
+  });
+
+  it('recommends but does not require a symbol', () => {
+    const evaluation = evaluatePassword('Bluebirdsong42');
+    expect(evaluation.isValid).toBe(true);
+    expect(failedRules('Bluebirdsong42')).toEqual([PasswordRule.SYMBOL]);
+  });
+
+  it('caps the score of an invalid password at weak', () => {
+    const evaluation = evaluatePassword('password1234567890');
+    expect(evaluation.isValid).toBe(false);
+    expect(evaluation.score).toBeLessThanOrEqual(30);
+    expect(evaluation.strength).toBe(PasswordStrength.WEAK);
+  });
+});
+
+describe('getPasswordPolicyError', () => {
+  it('reports the first failing required rule', () => {
+    expect(getPasswordPolicyError(evaluatePassword('abc'))).toBe(
+      'Password requirement not met: at least 8 characters'
+    );
+  });
+
+  it('returns null for an acceptable password', () => {
+    expect(getPasswordPolicyError(evaluatePassword('Bluebirdsong42'))).toBeNull();
+  });
+});
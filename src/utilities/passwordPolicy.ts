@@ -0,0 +1,139 @@
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+// Constants
+export const PASSWORD_MIN_LENGTH = 8 as const;
+const STRONG_PASSWORD_LENGTH = 14 as const;
+const MIN_PERSONAL_TOKEN_LENGTH = 3 as const;
+
+// Enums
+export enum PasswordRule {
+  MIN_LENGTH = 'MIN_LENGTH',
+  LOWERCASE = 'LOWERCASE',
+  UPPERCASE = 'UPPERCASE',
+  NUMBER = 'NUMBER',
+  SYMBOL = 'SYMBOL',
+  NO_PERSONAL_INFO = 'NO_PERSONAL_INFO',
+  NOT_COMMON = 'NOT_COMMON',
+}
+
+export enum PasswordStrength {
+  WEAK = 'WEAK',
+  FAIR = 'FAIR',
+  GOOD = 'GOOD',
+  STRONG = 'STRONG',
+}
+
+// Interfaces
+export interface PasswordContext {
+  email?: string;
+  name?: string;
+}
+
+export interface PasswordRuleResult {
+  rule: PasswordRule;
+  label: string;
+  required: boolean;
+  passed: boolean;
+}
+
+export interface PasswordEvaluation {
+  rules: ReadonlyArray<PasswordRuleResult>;
+  isValid: boolean;
+  strength: PasswordStrength;
+  // 0-100, for the strength meter
+  score: number;
+}
+
+// Email local part and name words long enough to be meaningful, lowercased
+function getPersonalTokens({ email, name }: PasswordContext): ReadonlyArray<string> {
+  const emailLocalPart = email?.split('@')[0] ?? '';
+  const tokens: string[] = [emailLocalPart, ...(name?.split(/\s+/) ?? [])];
+  return tokens
+    .map((token) => token.trim().toLowerCase())
+    .filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+}
+
+function containsPersonalInfo(password: string, context: PasswordContext): boolean {
+  const lowered = password.toLowerCase();
+  return getPersonalTokens(context).some((token) => lowered.includes(token));
+}
+
+function getStrength(score: number): PasswordStrength {
+  if (score >= 85) {
+    return PasswordStrength.STRONG;
+  }
+  if (score >= 60) {
+    return PasswordStrength.GOOD;
+  }
+  if (score >= 35) {
+    return PasswordStrength.FAIR;
+  }
+  return PasswordStrength.WEAK;
+}
+
+// Single source of truth for password rules: registration, reset and change password
+export function evaluatePassword(
+  password: string,
+  context: PasswordContext = {}
+): PasswordEvaluation {
+  const rules: ReadonlyArray<PasswordRuleResult> = [
+    {
+      rule: PasswordRule.MIN_LENGTH,
+      label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+      required: true,
+      passed: password.length >= PASSWORD_MIN_LENGTH,
+    },
+    {
+      rule: PasswordRule.LOWERCASE,
+      label: 'A lowercase letter',
+      required: true,
+      passed: /[a-z]/.test(password),
+    },
+    {
+      rule: PasswordRule.UPPERCASE,
+      label: 'An uppercase letter',
+      required: true,
+      passed: /[A-Z]/.test(password),
+    },
+    {
+      rule: PasswordRule.NUMBER,
+      label: 'A number',
+      required: true,
+      passed: /\d/.test(password),
+    },
+    {
+      rule: PasswordRule.SYMBOL,
+      label: 'A symbol (recommended)',
+      required: false,
+      passed: /[^A-Za-z0-9]/.test(password),
+    },
+    {
+      rule: PasswordRule.NO_PERSONAL_INFO,
+      label: 'Does not contain your name or email',
+      required: true,
+      passed: password.length > 0 && !containsPersonalInfo(password, context),
+    },
+    {
+      rule: PasswordRule.NOT_COMMON,
+      label: 'Is not a commonly used password',
+      required: true,
+      passed: password.length > 0 && !COMMON_PASSWORDS.has(password.toLowerCase()),
+    },
+  ];
+
+  const isValid = rules.every(({ required, passed }) => !required || passed);
+
+  // Character variety and length raise the score; failing a required rule caps it at weak
+  const passedCount = rules.filter(({ passed }) => passed).length;
+  const lengthBonus = Math.min(password.length / STRONG_PASSWORD_LENGTH, 1) * 30;
+  const rawScore = Math.round((passedCount / rules.length) * 70 + lengthBonus);
+  const score = isValid ? rawScore : Math.min(rawScore, 30);
+
+  return { rules, isValid, strength: getStrength(score), score };
+}
+
+// First failing required rule as a form error, or null when the password is acceptable
+export function getPasswordPolicyError(evaluation: PasswordEvaluation): string | null {
+  const failed = evaluation.rules.find(({ required, passed }) => required && !passed);
+  return failed ? `Password requirement not met: ${failed.label.toLowerCase()}` : null;
+}
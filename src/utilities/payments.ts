@@ -0,0 +1,34 @@
+import type React from 'react';
+
+// Enums
+export enum PaymentProviderId {
+  FAKE = 'FAKE',
+}
+
+// Interfaces
+// Raw values collected by a provider's form; only the provider knows their meaning
+export type PaymentDetails = Record<string, string>;
+
+// Single-use token the server charges when the order is placed; card data never reaches us
+export interface PaymentToken {
+  provider: PaymentProviderId;
+  token: string;
+  // Shown on the review step, e.g. "Visa •••• 4242"
+  summary: string;
+}
+
+export interface PaymentFormProps {
+  // Called with complete details, or null while the form is incomplete or invalid
+  onChange: (details: PaymentDetails | null) => void;
+  disabled?: boolean;
+}
+
+// Contract every payment integration implements; see config/paymentProviders.ts.
+// tokenize rejects with a displayable message when the payment method is declined.
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  label: string;
+  Form: React.FC<PaymentFormProps>;
+  tokenize: (details: PaymentDetails) => Promise<PaymentToken>;
+  enabled: boolean;
+}
@@ -0,0 +1,51 @@
+import { getSafeRedirectPath, DEFAULT_REDIRECT_PATH } from './redirect';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-origin paths with their query and hash', () => {
+    expect(getSafeRedirectPath('/account/orders?status=PAID#latest')).toBe(
+      '/account/orders?status=PAID#latest'
+    );
+  });
+
+  it.each([
+    ['a protocol-relative URL', '//evil.example'],
+    ['a backslash URL', '/\\evil.example'],
+    ['an absolute URL', 'https://evil.example/account'],
+    ['an absolute same-origin URL', `${window.location.origin}/account`],
+    ['a javascript: URL', 'javascript:alert(1)'],
+    ['a relative path', 'account'],
+    ['an empty string', ''],
+  ])('rejects %s', (_description, value) => {
+    expect(getSafeRedirectPath(value)).toBe(DEFAULT_REDIRECT_PATH);
+  });
+
+  it.each([
+    '/login',
+    '/login?from=%2Faccount',
+    '/./login',
+    '/Login',
+    '/login/',
+    '/login/2fa',
+    '/register',
+    '/forgot-password',
+    '/reset-password?token=abc',
+    '/verify-email',
+    '/auth/callback?code=abc',
+  ])('does not redirect back into an auth flow (%s)', (value) => {
+    expect(getSafeRedirectPath(value)).toBe(DEFAULT_REDIRECT_PATH);
+  });
+
+  it.each(['/loginhelp', '/authors', '/registered-users'])(
+    'keeps paths that only start like an auth route (%s)',
+    (value) => {
+      expect(getSafeRedirectPath(value)).toBe(value);
+    }
+  );
+
+  it.each([undefined, null, 42, { pathname: '/account' }])(
+    'falls back for non-string values (%p)',
+    (value) => {
+      expect(getSafeRedirectPath(value)).toBe(DEFAULT_REDIRECT_PATH);
+    }
+  );
+});
@@ -0,0 +1,65 @@
+import type { Location } from 'react-router-dom';
+import { StorageKey } from './tokenStorage';
+
+// Constants
+export const DEFAULT_REDIRECT_PATH = '/' as const;
+// Sign-in, sign-up and recovery routes (including /login/2fa and /auth/callback). Returning
+// to one after login would drop the user back into an auth flow.
+const AUTH_PATH_PREFIXES: ReadonlyArray<string> = [
+  '/login',
+  '/register',
+  '/forgot-password',
+  '/reset-password',
+  '/verify-email',
+  '/auth',
+];
+
+// Interfaces
+// State passed to /login by ProtectedRoute, the reset/verify flows and the idle timeout
+export interface LoginLocationState {
+  message?: string;
+  from?: string;
+}
+
+// Route matching is case-insensitive, so "/Login" is the login page too
+function isAuthPath(pathname: string): boolean {
+  const path = pathname.toLowerCase();
+  return AUTH_PATH_PREFIXES.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
+
+export function locationToPath(location: Pick<Location, 'pathname' | 'search' | 'hash'>): string {
+  return `${location.pathname}${location.search}${location.hash}`;
+}
+
+// Returns the path only if it stays on this origin, so it can't be used as an open redirect
+export function getSafeRedirectPath(value: unknown): string {
+  // Reject protocol-relative ("//evil.com") and backslash ("/\evil.com") tricks up front
+  if (typeof value !== 'string' || !/^\/(?![/\\])/.test(value)) {
+    return DEFAULT_REDIRECT_PATH;
+  }
+
+  try {
+    const url = new URL(value, window.location.origin);
+    if (url.origin !== window.location.origin || isAuthPath(url.pathname)) {
+      return DEFAULT_REDIRECT_PATH;
+    }
+    return locationToPath(url);
+  } catch {
+    return DEFAULT_REDIRECT_PATH;
+  }
+}
+
+// The email verification link may open in another tab, so the target survives in localStorage
+export function rememberRedirectPath(path: string | undefined): void {
+  if (path) {
+    localStorage.setItem(StorageKey.POST_LOGIN_REDIRECT, getSafeRedirectPath(path));
+  }
+}
+
+export function getRememberedRedirectPath(): string | undefined {
+  return localStorage.getItem(StorageKey.POST_LOGIN_REDIRECT) ?? undefined;
+}
+
+export function forgetRedirectPath(): void {
+  localStorage.removeItem(StorageKey.POST_LOGIN_REDIRECT);
+}
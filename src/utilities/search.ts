@@ -0,0 +1,70 @@
+import { CatalogParam } from './catalog';
+import type { Category, ProductSummary } from './catalog';
+import { StorageKey } from './tokenStorage';
+
+// Enums
+export enum SearchSuggestionType {
+  RECENT = 'RECENT',
+  PRODUCT = 'PRODUCT',
+  CATEGORY = 'CATEGORY',
+}
+
+// Interfaces
+export type SuggestedProduct = Pick<
+  ProductSummary,
+  'id' | 'slug' | 'name' | 'price' | 'currency' | 'thumbnailUrl'
+>;
+
+export type SearchSuggestion =
+  | { type: SearchSuggestionType.RECENT; label: string }
+  | { type: SearchSuggestionType.PRODUCT; label: string; product: SuggestedProduct }
+  | { type: SearchSuggestionType.CATEGORY; label: string; category: Category };
+
+// Constants
+export const SEARCH_PATH = '/search' as const;
+export const SEARCH_DEBOUNCE_MS = 250 as const;
+export const MIN_SUGGESTION_QUERY_LENGTH = 2 as const;
+export const SUGGESTION_LIMIT = 5 as const;
+const MAX_RECENT_SEARCHES = 8 as const;
+
+export const SEARCH_SUGGESTION_GROUP_LABELS: Record<SearchSuggestionType, string> = {
+  [SearchSuggestionType.RECENT]: 'Recent searches',
+  [SearchSuggestionType.PRODUCT]: 'Products',
+  [SearchSuggestionType.CATEGORY]: 'Categories',
+};
+
+export function buildSearchPath(query: string): string {
+  return `${SEARCH_PATH}?${new URLSearchParams({ [CatalogParam.QUERY]: query.trim() })}`;
+}
+
+// Recent searches are kept per browser, most recent first; they are not tied to an account
+export function loadRecentSearches(): string[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(StorageKey.RECENT_SEARCHES) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((query): query is string => typeof query === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Returns the updated list; repeating a search moves it back to the top
+export function saveRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  const searches = [
+    trimmed,
+    ...loadRecentSearches().filter((recent) => recent.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  try {
+    localStorage.setItem(StorageKey.RECENT_SEARCHES, JSON.stringify(searches));
+  } catch (error) {
+    console.error('Failed to save recent searches:', error);
+  }
+  return searches;
+}
+
+export function clearRecentSearches(): void {
+  localStorage.removeItem(StorageKey.RECENT_SEARCHES);
+}
@@ -0,0 +1,77 @@
+import { broadcastSessionEvent, subscribeToSessionEvents, SessionEventType } from './sessionSync';
+import type { SessionEvent } from './sessionSync';
+import { StorageKey } from './tokenStorage';
+
+// jsdom has no BroadcastChannel, so these cover the storage-event fallback
+
+function receiveStorageEvent(key: string, newValue: string | null): void {
+  window.dispatchEvent(new StorageEvent('storage', { key, newValue }));
+}
+
+describe('broadcastSessionEvent', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes only the event signal to localStorage and removes it again', () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+
+    broadcastSessionEvent({ type: SessionEventType.LOGIN, userId: 7 });
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    const [key, value] = setItem.mock.calls[0];
+    expect(key).toBe(StorageKey.SESSION_EVENT);
+    expect(JSON.parse(value)).toEqual({
+      type: SessionEventType.LOGIN,
+      userId: 7,
+      sentAt: expect.any(Number),
+    });
+    expect(localStorage.getItem(StorageKey.SESSION_EVENT)).toBeNull();
+  });
+
+  it('never writes a token for a token refresh', () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+
+    broadcastSessionEvent({ type: SessionEventType.TOKEN_REFRESHED });
+
+    expect(Object.keys(JSON.parse(setItem.mock.calls[0][1]))).toEqual(['type', 'sentAt']);
+  });
+});
+
+describe('subscribeToSessionEvents', () => {
+  it.each<SessionEvent>([
+    { type: SessionEventType.LOGIN, userId: 7 },
+    { type: SessionEventType.TOKEN_REFRESHED },
+    { type: SessionEventType.LOGOUT },
+  ])('delivers $type events from other tabs', (event) => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToSessionEvents(listener);
+
+    receiveStorageEvent(StorageKey.SESSION_EVENT, JSON.stringify({ ...event, sentAt: 1 }));
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining(event));
+  });
+
+  it('ignores removals, other keys, unknown event types and malformed payloads', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToSessionEvents(listener);
+
+    receiveStorageEvent(StorageKey.SESSION_EVENT, null);
+    receiveStorageEvent(StorageKey.ACCESS_TOKEN, JSON.stringify({ type: 'LOGOUT' }));
+    receiveStorageEvent(StorageKey.SESSION_EVENT, JSON.stringify({ type: 'UNKNOWN' }));
+    receiveStorageEvent(StorageKey.SESSION_EVENT, '{not json');
+    unsubscribe();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering events after unsubscribing', () => {
+    const listener = jest.fn();
+    subscribeToSessionEvents(listener)();
+
+    receiveStorageEvent(StorageKey.SESSION_EVENT, JSON.stringify({ type: 'LOGOUT' }));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
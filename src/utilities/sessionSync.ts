@@ -0,0 +1,105 @@
+import type { User } from '../redux/slices/authSlice';
+import { StorageKey } from './tokenStorage';
+
+// Enums
+export enum SessionEventType {
+  LOGIN = 'LOGIN',
+  LOGOUT = 'LOGOUT',
+  TOKEN_REFRESHED = 'TOKEN_REFRESHED',
+}
+
+// Interfaces
+// Events are signals only: tokens never cross tabs, since the storage-event fallback would
+// write them to localStorage. A tab that needs a token gets its own with the refresh cookie.
+export interface LoginSessionEvent {
+  type: SessionEventType.LOGIN;
+  userId: User['id'];
+}
+
+export interface LogoutSessionEvent {
+  type: SessionEventType.LOGOUT;
+}
+
+export interface TokenRefreshedSessionEvent {
+  type: SessionEventType.TOKEN_REFRESHED;
+}
+
+export type SessionEvent = LoginSessionEvent | LogoutSessionEvent | TokenRefreshedSessionEvent;
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+// Constants
+const CHANNEL_NAME = 'shopstore-session' as const;
+
+let channel: BroadcastChannel | null | undefined;
+
+// BroadcastChannel where supported; null means fall back to storage events
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+}
+
+function isSessionEvent(value: unknown): value is SessionEvent {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.values(SessionEventType).includes((value as SessionEvent).type)
+  );
+}
+
+// Notify every other tab of this origin; the sending tab does not receive its own event
+export function broadcastSessionEvent(event: SessionEvent): void {
+  const broadcastChannel = getChannel();
+
+  if (broadcastChannel) {
+    broadcastChannel.postMessage(event);
+    return;
+  }
+
+  try {
+    // Writing then removing fires a storage event in other tabs without leaving data behind
+    localStorage.setItem(
+      StorageKey.SESSION_EVENT,
+      JSON.stringify({ ...event, sentAt: Date.now() })
+    );
+    localStorage.removeItem(StorageKey.SESSION_EVENT);
+  } catch (error) {
+    console.error('Failed to broadcast session event:', error);
+  }
+}
+
+// Subscribe to session events from other tabs; returns an unsubscribe function
+export function subscribeToSessionEvents(listener: SessionEventListener): () => void {
+  const broadcastChannel = getChannel();
+
+  if (broadcastChannel) {
+    const handleMessage = (message: MessageEvent<unknown>): void => {
+      if (isSessionEvent(message.data)) {
+        listener(message.data);
+      }
+    };
+
+    broadcastChannel.addEventListener('message', handleMessage);
+    return (): void => broadcastChannel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (storageEvent: StorageEvent): void => {
+    if (storageEvent.key !== StorageKey.SESSION_EVENT || !storageEvent.newValue) {
+      return;
+    }
+
+    try {
+      const event: unknown = JSON.parse(storageEvent.newValue);
+      if (isSessionEvent(event)) {
+        listener(event);
+      }
+    } catch {
+      // Ignore malformed payloads
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return (): void => window.removeEventListener('storage', handleStorage);
+}
@@ -0,0 +1,177 @@
+import { refreshAccessToken } from '../apollo/refreshLink';
+import { startTokenRenewal, stopTokenRenewal } from './tokenRenewal';
+import { saveTokens } from './tokenStorage';
+
+jest.mock('../apollo/refreshLink', () => ({
+  refreshAccessToken: jest.fn(),
+  isRefreshRejectedError: (error: { statusCode?: number } | null): boolean =>
+    error?.statusCode === 401,
+}));
+
+// Without jitter, so retry times are predictable
+jest.mock('./connectivityMonitor', () => ({
+  getBackoffDelay: (attempt: number, initialMs: number, maxMs: number): number =>
+    Math.min(maxMs, initialMs * 2 ** attempt),
+}));
+
+const refreshMock = refreshAccessToken as jest.MockedFunction<typeof refreshAccessToken>;
+
+const MINUTE_MS = 60_000;
+const MARGIN_MS = MINUTE_MS;
+
+function createToken(lifetimeMs: number, withIssuedAt = true): string {
+  const now = Date.now();
+  const payload = {
+    exp: (now + lifetimeMs) / 1000,
+    ...(withIssuedAt ? { iat: now / 1000 } : {}),
+  };
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+function setVisibility(state: DocumentVisibilityState): void {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+// A successful refresh issues a token with the same lifetime as the first one
+function refreshSucceedsWith(lifetimeMs: number): void {
+  refreshMock.mockImplementation(async () => {
+    const token = createToken(lifetimeMs);
+    saveTokens(token);
+    return token;
+  });
+}
+
+describe('token renewal', () => {
+  // One clock for the whole file: the scheduler remembers when it last renewed
+  beforeAll(() => {
+    jest.useFakeTimers();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    refreshMock.mockReset();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    stopTokenRenewal();
+    jest.restoreAllMocks();
+    // Let the minimum interval between renewals lapse before the next test
+    jest.advanceTimersByTime(MINUTE_MS);
+  });
+
+  it('renews the margin before the exp claim', async () => {
+    saveTokens(createToken(10 * MINUTE_MS));
+    refreshSucceedsWith(10 * MINUTE_MS);
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    await jest.advanceTimersByTimeAsync(9 * MINUTE_MS - 1);
+    expect(refreshMock).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+
+    // The renewed token is scheduled in turn
+    await jest.advanceTimersByTimeAsync(9 * MINUTE_MS);
+    expect(refreshMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('renews a token that lives no longer than the margin halfway through its lifetime', async () => {
+    saveTokens(createToken(MINUTE_MS));
+    refreshSucceedsWith(MINUTE_MS);
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    await jest.advanceTimersByTimeAsync(MINUTE_MS / 2 - 1);
+    expect(refreshMock).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not renew back to back when a token without iat is already due', async () => {
+    saveTokens(createToken(MINUTE_MS, false));
+    refreshMock.mockImplementation(async () => {
+      const token = createToken(MINUTE_MS, false);
+      saveTokens(token);
+      return token;
+    });
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(9_999);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refreshMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('pauses while the tab is hidden and catches up when it becomes visible', async () => {
+    saveTokens(createToken(10 * MINUTE_MS));
+    refreshSucceedsWith(10 * MINUTE_MS);
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    setVisibility('hidden');
+    await jest.advanceTimersByTimeAsync(9 * MINUTE_MS + 1);
+    expect(refreshMock).not.toHaveBeenCalled();
+
+    setVisibility('visible');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the server rejects the refresh', async () => {
+    saveTokens(createToken(2 * MINUTE_MS));
+    refreshMock.mockRejectedValue({ statusCode: 401 });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    await jest.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(30 * MINUTE_MS);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps retrying with backoff after a network failure', async () => {
+    saveTokens(createToken(2 * MINUTE_MS));
+    refreshMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    await jest.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(refreshMock).toHaveBeenCalledTimes(2);
+
+    // The second failure doubles the wait
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(refreshMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(refreshMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries a failed renewal as soon as the browser is back online', async () => {
+    saveTokens(createToken(2 * MINUTE_MS));
+    refreshMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    refreshMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    refreshSucceedsWith(2 * MINUTE_MS);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    startTokenRenewal({ marginMs: MARGIN_MS });
+
+    await jest.advanceTimersByTimeAsync(MINUTE_MS + 10_000);
+    expect(refreshMock).toHaveBeenCalledTimes(2);
+
+    // The backoff is now 20 seconds; coming back online skips the rest of it
+    await jest.advanceTimersByTimeAsync(10_000);
+    window.dispatchEvent(new Event('online'));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(refreshMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,154 @@
+import { isRefreshRejectedError, refreshAccessToken } from '../apollo/refreshLink';
+import { getBackoffDelay } from './connectivityMonitor';
+import { getAccessToken, getTokenExpiry, getTokenIssuedAt } from './tokenStorage';
+
+// Constants
+export const DEFAULT_RENEWAL_MARGIN_MS = 60_000 as const;
+const MAX_TIMEOUT_MS = 2_147_483_647 as const; // setTimeout overflows above 2^31 - 1
+// Floor between renewals, in case the server issues tokens that are already due for renewal
+const MIN_RENEWAL_INTERVAL_MS = 10_000 as const;
+// Backoff after a renewal that failed without the server rejecting it (offline, 5xx)
+const RETRY_INITIAL_DELAY_MS = 10_000 as const;
+const RETRY_MAX_DELAY_MS = 300_000 as const;
+
+// Interfaces
+export interface TokenRenewalOptions {
+  marginMs?: number;
+}
+
+// Scheduler state
+let renewalTimer: ReturnType<typeof setTimeout> | null = null;
+let marginMs: number = DEFAULT_RENEWAL_MARGIN_MS;
+let running = false;
+let lastRenewalAt = 0;
+let failedAttempts = 0;
+let retryAt = 0;
+
+function clearTimer(): void {
+  if (renewalTimer !== null) {
+    clearTimeout(renewalTimer);
+    renewalTimer = null;
+  }
+}
+
+// Milliseconds until the current access token should be renewed, or null without a usable token
+function getDelayUntilRenewal(): number | null {
+  const token = getAccessToken();
+  if (!token) {
+    return null;
+  }
+
+  const exp = getTokenExpiry(token);
+  if (exp === null) {
+    return null;
+  }
+
+  // Tokens that live no longer than the margin are renewed halfway through their lifetime
+  const issuedAt = getTokenIssuedAt(token);
+  const margin = issuedAt === null ? marginMs : Math.min(marginMs, (exp - issuedAt) / 2);
+
+  return Math.max(exp - margin - Date.now(), 0);
+}
+
+async function renew(): Promise<void> {
+  clearTimer();
+  lastRenewalAt = Date.now();
+
+  try {
+    await refreshAccessToken();
+  } catch (error) {
+    console.error('Token renewal failed:', error);
+
+    if (isRefreshRejectedError(error)) {
+      // refreshAccessToken has cleared the session
+      stopTokenRenewal();
+      return;
+    }
+
+    // The session is still good; try again later, or as soon as the browser is back online
+    retryAt =
+      Date.now() + getBackoffDelay(failedAttempts, RETRY_INITIAL_DELAY_MS, RETRY_MAX_DELAY_MS);
+    failedAttempts += 1;
+    scheduleRenewal();
+    return;
+  }
+
+  failedAttempts = 0;
+  retryAt = 0;
+  scheduleRenewal();
+}
+
+function scheduleRenewal(): void {
+  clearTimer();
+
+  if (!running || document.visibilityState === 'hidden') {
+    return;
+  }
+
+  const dueDelay = getDelayUntilRenewal();
+  if (dueDelay === null) {
+    return;
+  }
+
+  const now = Date.now();
+  const delay = Math.max(dueDelay, lastRenewalAt + MIN_RENEWAL_INTERVAL_MS - now, retryAt - now, 0);
+  if (delay === 0) {
+    void renew();
+    return;
+  }
+
+  renewalTimer = setTimeout(
+    () => {
+      // The token may have been rotated by refreshLink since this timer was set
+      if (getDelayUntilRenewal() === 0) {
+        void renew();
+      } else {
+        scheduleRenewal();
+      }
+    },
+    Math.min(delay, MAX_TIMEOUT_MS)
+  );
+}
+
+// Timers are throttled in background tabs, so pause while hidden and catch up when visible
+function handleVisibilityChange(): void {
+  if (document.visibilityState === 'hidden') {
+    clearTimer();
+  } else {
+    scheduleRenewal();
+  }
+}
+
+function handleFocus(): void {
+  scheduleRenewal();
+}
+
+// A renewal that failed while offline is retried without waiting out its backoff
+function handleOnline(): void {
+  retryAt = 0;
+  scheduleRenewal();
+}
+
+// Start renewing the access token a margin before its exp claim
+export function startTokenRenewal(options: TokenRenewalOptions = {}): void {
+  marginMs = options.marginMs ?? DEFAULT_RENEWAL_MARGIN_MS;
+
+  if (!running) {
+    running = true;
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('online', handleOnline);
+  }
+
+  scheduleRenewal();
+}
+
+export function stopTokenRenewal(): void {
+  running = false;
+  failedAttempts = 0;
+  retryAt = 0;
+  clearTimer();
+  document.removeEventListener('visibilitychange', handleVisibilityChange);
+  window.removeEventListener('focus', handleFocus);
+  window.removeEventListener('online', handleOnline);
+}
@@ -1,45 +1,185 @@
+import { broadcastSessionEvent, SessionEventType } from './sessionSync';
+
 // Enums
 export enum StorageKey {
   ACCESS_TOKEN = 'ACCESS_TOKEN',
   REFRESH_TOKEN = 'REFRESH_TOKEN',
   USER_DATA = 'USER_DATA',
+  SESSION_EVENT = 'SESSION_EVENT',
+  TOKEN_STORAGE_TYPE = 'TOKEN_STORAGE_TYPE',
+  LAST_ACTIVITY = 'LAST_ACTIVITY',
+  POST_LOGIN_REDIRECT = 'POST_LOGIN_REDIRECT',
+  OAUTH_PENDING_AUTHORIZATION = 'OAUTH_PENDING_AUTHORIZATION',
+  GUEST_CART = 'GUEST_CART',
+  GUEST_WISHLIST = 'GUEST_WISHLIST',
+  RECENT_SEARCHES = 'RECENT_SEARCHES',
+}
+
+export enum TokenStorageType {
+  MEMORY = 'MEMORY',
+  SESSION = 'SESSION',
+  LOCAL = 'LOCAL',
 }
 
 // Interface
 export interface TokenStorage {
-  saveTokens(accessToken: string, refreshToken: string): void;
+  saveTokens(accessToken: string, refreshToken?: string): void;
   getAccessToken(): string | null;
   getRefreshToken(): string | null;
   clearTokens(): void;
   isTokenExpired(token: string): boolean;
 }
 
-// Token storage functions
-export function saveTokens(accessToken: string, refreshToken: string): void {
-  localStorage.setItem(StorageKey.ACCESS_TOKEN, accessToken);
-  localStorage.setItem(StorageKey.REFRESH_TOKEN, refreshToken);
+// Constants
+// Used when the user does not tick "Remember me": the access token never touches disk
+export const DEFAULT_TOKEN_STORAGE_TYPE = TokenStorageType.MEMORY as const;
+
+// JWT segments are base64url: map to the base64 alphabet and restore padding for atob
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
+
+// Reads a numeric date claim (seconds) as milliseconds, or null if the token cannot be decoded
+function getTokenDateClaim(token: string, claim: 'exp' | 'iat'): number | null {
+  try {
+    const payload = JSON.parse(decodeBase64Url(token.split('.')[1]));
+    return typeof payload[claim] === 'number' ? payload[claim] * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Returns the JWT exp claim in milliseconds, or null if the token cannot be decoded
+export function getTokenExpiry(token: string): number | null {
+  return getTokenDateClaim(token, 'exp');
+}
+
+// Returns the JWT iat claim in milliseconds, or null if the token has none
+export function getTokenIssuedAt(token: string): number | null {
+  return getTokenDateClaim(token, 'iat');
+}
+
+export function isTokenExpired(token: string): boolean {
+  const exp = getTokenExpiry(token);
+  return exp === null || Date.now() >= exp;
+}
+
+// Backends
+// Tokens live only as long as the page; reloads restore the session from the refresh cookie
+export class MemoryTokenStorage implements TokenStorage {
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+
+  saveTokens(accessToken: string, refreshToken?: string): void {
+    this.accessToken = accessToken;
+    this.refreshToken = refreshToken || null;
+  }
+
+  getAccessToken(): string | null {
+    return this.accessToken;
+  }
+
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+
+  clearTokens(): void {
+    this.accessToken = null;
+    this.refreshToken = null;
+  }
+
+  isTokenExpired(token: string): boolean {
+    return isTokenExpired(token);
+  }
+}
+
+// Backed by sessionStorage (this tab only) or localStorage ("Remember me", survives restarts)
+export class WebStorageTokenStorage implements TokenStorage {
+  constructor(private readonly storage: Storage) {}
+
+  saveTokens(accessToken: string, refreshToken?: string): void {
+    this.storage.setItem(StorageKey.ACCESS_TOKEN, accessToken);
+
+    // The refresh token normally stays in the HttpOnly cookie and never reaches the client
+    if (refreshToken) {
+      this.storage.setItem(StorageKey.REFRESH_TOKEN, refreshToken);
+    } else {
+      this.storage.removeItem(StorageKey.REFRESH_TOKEN);
+    }
+  }
+
+  getAccessToken(): string | null {
+    return this.storage.getItem(StorageKey.ACCESS_TOKEN);
+  }
+
+  getRefreshToken(): string | null {
+    return this.storage.getItem(StorageKey.REFRESH_TOKEN);
+  }
+
+  clearTokens(): void {
+    this.storage.removeItem(StorageKey.ACCESS_TOKEN);
+    this.storage.removeItem(StorageKey.REFRESH_TOKEN);
+  }
+
+  isTokenExpired(token: string): boolean {
+    return isTokenExpired(token);
+  }
+}
+
+const tokenStorages: Record<TokenStorageType, TokenStorage> = {
+  [TokenStorageType.MEMORY]: new MemoryTokenStorage(),
+  [TokenStorageType.SESSION]: new WebStorageTokenStorage(sessionStorage),
+  [TokenStorageType.LOCAL]: new WebStorageTokenStorage(localStorage),
+};
+
+function isTokenStorageType(value: string | null): value is TokenStorageType {
+  return Object.values(TokenStorageType).includes(value as TokenStorageType);
+}
+
+// The selected backend is recorded in localStorage so every tab and reload agrees on it.
+// Its presence also marks that a session may be restorable from the refresh cookie.
+export function getTokenStorageType(): TokenStorageType | null {
+  const type = localStorage.getItem(StorageKey.TOKEN_STORAGE_TYPE);
+  return isTokenStorageType(type) ? type : null;
+}
+
+export function selectTokenStorage(type: TokenStorageType): void {
+  Object.entries(tokenStorages).forEach(([storageType, storage]) => {
+    if (storageType !== type) {
+      storage.clearTokens();
+    }
+  });
+  localStorage.setItem(StorageKey.TOKEN_STORAGE_TYPE, type);
+}
+
+export function getTokenStorage(): TokenStorage {
+  return tokenStorages[getTokenStorageType() ?? DEFAULT_TOKEN_STORAGE_TYPE];
+}
+
+// Token storage functions (delegate to the selected backend)
+export function saveTokens(accessToken: string, refreshToken?: string): void {
+  getTokenStorage().saveTokens(accessToken, refreshToken);
 }
 
 export function getAccessToken(): string | null {
-  return localStorage.getItem(StorageKey.ACCESS_TOKEN);
+  return getTokenStorage().getAccessToken();
 }
 
 export function getRefreshToken(): string | null {
-  return localStorage.getItem(StorageKey.REFRESH_TOKEN);
+  return getTokenStorage().getRefreshToken();
 }
 
+// Clearing tokens ends the session in every tab
 export function clearTokens(): void {
-  localStorage.removeItem(StorageKey.ACCESS_TOKEN);
-  localStorage.removeItem(StorageKey.REFRESH_TOKEN);
+  Object.values(tokenStorages).forEach((storage) => storage.clearTokens());
+  localStorage.removeItem(StorageKey.TOKEN_STORAGE_TYPE);
   localStorage.removeItem(StorageKey.USER_DATA);
+  broadcastSessionEvent({ type: SessionEventType.LOGOUT });
 }
 
-export function isTokenExpired(token: string): boolean {
-  try {
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    const exp = payload.exp * 1000; // Convert to milliseconds
-    return Date.now() >= exp;
-  } catch {
-    return true;
-  }
+// Forget this tab's own tokens; localStorage, and with it other tabs' sessions, is left alone
+export function clearTabTokens(): void {
+  tokenStorages[TokenStorageType.MEMORY].clearTokens();
+  tokenStorages[TokenStorageType.SESSION].clearTokens();
 }
@@ -0,0 +1,67 @@
+import type { CartItem } from '../redux/slices/cartSlice';
+import type { WishlistItem } from '../redux/slices/wishlistSlice';
+import type { ProductSummary, ProductVariant } from './catalog';
+
+// Enums
+// Ways a saved product can differ from when it was saved
+export enum WishlistFlag {
+  UNAVAILABLE = 'UNAVAILABLE',
+  OUT_OF_STOCK = 'OUT_OF_STOCK',
+  PRICE_DROPPED = 'PRICE_DROPPED',
+  PRICE_INCREASED = 'PRICE_INCREASED',
+}
+
+// Interfaces
+// The current product behind a wishlist item (WISHLIST_PRODUCTS_QUERY)
+export interface WishlistProduct extends ProductSummary {
+  variants: ProductVariant[];
+}
+
+// Constants
+export const WISHLIST_FLAG_COLORS: Record<WishlistFlag, 'default' | 'success' | 'warning'> = {
+  [WishlistFlag.UNAVAILABLE]: 'default',
+  [WishlistFlag.OUT_OF_STOCK]: 'warning',
+  [WishlistFlag.PRICE_DROPPED]: 'success',
+  [WishlistFlag.PRICE_INCREASED]: 'warning',
+};
+
+// product is undefined when the catalog no longer has it
+export function getWishlistFlags(
+  item: WishlistItem,
+  product: WishlistProduct | undefined
+): WishlistFlag[] {
+  if (!product) {
+    return [WishlistFlag.UNAVAILABLE];
+  }
+
+  const flags: WishlistFlag[] = [];
+  if (!product.inStock) {
+    flags.push(WishlistFlag.OUT_OF_STOCK);
+  }
+  if (product.currency === item.currency && product.price < item.savedPrice) {
+    flags.push(WishlistFlag.PRICE_DROPPED);
+  } else if (product.currency === item.currency && product.price > item.savedPrice) {
+    flags.push(WishlistFlag.PRICE_INCREASED);
+  }
+  return flags;
+}
+
+// Products with variants need a size/colour choice first, so only simple products can be
+// moved straight to the cart
+export function canMoveToCart(product: WishlistProduct | undefined): product is WishlistProduct {
+  return Boolean(product?.inStock) && product?.variants.length === 0;
+}
+
+export function toWishlistCartItem(product: WishlistProduct): CartItem {
+  return {
+    productId: product.id,
+    slug: product.slug,
+    variantId: null,
+    name: product.name,
+    variantLabel: null,
+    unitPrice: product.price,
+    currency: product.currency,
+    thumbnailUrl: product.thumbnailUrl,
+    quantity: 1,
+  };
+}
@@ -0,0 +1,53 @@
+import type { WishlistItem } from '../redux/slices/wishlistSlice';
+import type { RootState } from '../redux/store';
+import { StorageKey } from './tokenStorage';
+
+let lastPersistedItems: WishlistItem[] | null = null;
+
+function isWishlistItem(value: unknown): value is WishlistItem {
+  const item = value as WishlistItem;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof item.productId === 'string' &&
+    typeof item.slug === 'string' &&
+    typeof item.savedPrice === 'number'
+  );
+}
+
+// Guest wishlists live in localStorage alongside the guest cart
+export function loadGuestWishlist(): WishlistItem[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(StorageKey.GUEST_WISHLIST) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isWishlistItem) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGuestWishlist(items: ReadonlyArray<WishlistItem>): void {
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(StorageKey.GUEST_WISHLIST);
+    } else {
+      localStorage.setItem(StorageKey.GUEST_WISHLIST, JSON.stringify(items));
+    }
+  } catch (error) {
+    console.error('Failed to save guest wishlist:', error);
+  }
+}
+
+export function clearGuestWishlist(): void {
+  localStorage.removeItem(StorageKey.GUEST_WISHLIST);
+}
+
+// Store subscriber: writes the wishlist while no one is signed in; a signed-in user's wishlist
+// is kept on the server
+export function persistGuestWishlist(state: RootState): void {
+  if (state.auth.user || state.wishlist.items === lastPersistedItems) {
+    return;
+  }
+
+  lastPersistedItems = state.wishlist.items;
+  saveGuestWishlist(state.wishlist.items);
+}
@@ -0,0 +1,30 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_GITHUB_CLIENT_ID?: string;
+  readonly VITE_MOCK_OIDC_AUTHORIZATION_ENDPOINT?: string;
+  readonly VITE_MOCK_OIDC_CLIENT_ID?: string;
+  readonly VITE_API_URL?: string;
+  readonly VITE_HEALTH_CHECK_ENDPOINT?: string;
+  readonly VITE_SUBSCRIPTION_URL?: string;
+  readonly VITE_IDLE_MINUTES?: string;
+  readonly VITE_IDLE_COUNTDOWN_SECONDS?: string;
+  readonly VITE_TOKEN_RENEWAL_MARGIN_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Set by public/config.js at runtime
+interface Window {
+  __APP_CONFIG__?: {
+    graphqlEndpoint?: string;
+    healthCheckEndpoint?: string;
+    subscriptionEndpoint?: string;
+    idleMinutes?: number;
+    idleCountdownSeconds?: number;
+    tokenRenewalMarginSeconds?: number;
+  };
+}
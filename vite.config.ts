@@ -5,5 +5,10 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
+    // In development the BFF (npm start) handles /graphql, keeping requests same-origin
+    proxy: {
+      '/graphql': { target: process.env.BFF_URL || 'http://localhost:8080', ws: true },
+      '/csrf-token': process.env.BFF_URL || 'http://localhost:8080',
+    },
   },
 });